@@ -0,0 +1,59 @@
+/**
+ * Provides the current time and timers to a queue.
+ */
+export interface Clock {
+    /**
+     * Cancels a timer.
+     * @param timer - The timer returned by `setTimer`.
+     */
+    clearTimer: (timer: unknown) => void;
+    /**
+     * Gets the current time.
+     * @returns The current time, in milliseconds since the epoch.
+     */
+    now: () => number;
+    /**
+     * Calls a function after a delay.
+     * @param callback - The function to call.
+     * @param delayMilliseconds - The delay in milliseconds.
+     * @returns A timer that can be passed to `clearTimer`.
+     */
+    setTimer: (callback: () => void, delayMilliseconds: number) => unknown;
+}
+/**
+ * The default clock, using `Date.now()` and `setTimeout()`.
+ */
+export declare const systemClock: Clock;
+/**
+ * A clock that only moves forward when `advanceBy` is called,
+ * so timed behaviour can be tested without waiting.
+ */
+export declare class ManualClock implements Clock {
+    private currentTime;
+    private lastTimerId;
+    private readonly timers;
+    /**
+     * Creates a new ManualClock.
+     * @param startTime - The starting time, in milliseconds since the epoch. Default is 0.
+     */
+    constructor(startTime?: number);
+    /**
+     * Moves the clock forward, calling the timers that become due in order.
+     * @param milliseconds - The number of milliseconds to move forward.
+     */
+    advanceBy(milliseconds: number): void;
+    clearTimer(timer: unknown): void;
+    now(): number;
+    setTimer(callback: () => void, delayMilliseconds: number): number;
+    /**
+     * Gets the number of timers that have not been called or cleared.
+     * @returns The number of active timers.
+     */
+    timerCount(): number;
+    /**
+     * Finds the timer that is due first, by the given time.
+     * @param targetTime - The latest due time.
+     * @returns The timer, or `undefined` if no timers are due.
+     */
+    private nextTimer;
+}
@@ -0,0 +1,84 @@
+/**
+ * The default clock, using `Date.now()` and `setTimeout()`.
+ */
+export const systemClock = {
+    clearTimer(timer) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        clearTimeout(timer);
+    },
+    now() {
+        return Date.now();
+    },
+    setTimer(callback, delayMilliseconds) {
+        return setTimeout(callback, delayMilliseconds);
+    }
+};
+/**
+ * A clock that only moves forward when `advanceBy` is called,
+ * so timed behaviour can be tested without waiting.
+ */
+export class ManualClock {
+    currentTime;
+    lastTimerId = 0;
+    timers = new Map();
+    /**
+     * Creates a new ManualClock.
+     * @param startTime - The starting time, in milliseconds since the epoch. Default is 0.
+     */
+    constructor(startTime = 0) {
+        this.currentTime = startTime;
+    }
+    /**
+     * Moves the clock forward, calling the timers that become due in order.
+     * @param milliseconds - The number of milliseconds to move forward.
+     */
+    advanceBy(milliseconds) {
+        const targetTime = this.currentTime + Math.max(0, milliseconds);
+        let timer = this.nextTimer(targetTime);
+        while (timer !== undefined) {
+            this.timers.delete(timer.id);
+            this.currentTime = Math.max(this.currentTime, timer.dueAt);
+            timer.callback();
+            timer = this.nextTimer(targetTime);
+        }
+        this.currentTime = targetTime;
+    }
+    clearTimer(timer) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        this.timers.delete(timer);
+    }
+    now() {
+        return this.currentTime;
+    }
+    setTimer(callback, delayMilliseconds) {
+        this.lastTimerId += 1;
+        this.timers.set(this.lastTimerId, {
+            callback,
+            dueAt: this.currentTime + Math.max(0, delayMilliseconds),
+            id: this.lastTimerId
+        });
+        return this.lastTimerId;
+    }
+    /**
+     * Gets the number of timers that have not been called or cleared.
+     * @returns The number of active timers.
+     */
+    timerCount() {
+        return this.timers.size;
+    }
+    /**
+     * Finds the timer that is due first, by the given time.
+     * @param targetTime - The latest due time.
+     * @returns The timer, or `undefined` if no timers are due.
+     */
+    nextTimer(targetTime) {
+        let nextTimer;
+        for (const timer of this.timers.values()) {
+            if (timer.dueAt <= targetTime &&
+                (nextTimer === undefined || timer.dueAt < nextTimer.dueAt)) {
+                nextTimer = timer;
+            }
+        }
+        return nextTimer;
+    }
+}
@@ -0,0 +1,135 @@
+/**
+ * Provides the current time and timers to a queue.
+ */
+export interface Clock {
+  /**
+   * Cancels a timer.
+   * @param timer - The timer returned by `setTimer`.
+   */
+  clearTimer: (timer: unknown) => void
+
+  /**
+   * Gets the current time.
+   * @returns The current time, in milliseconds since the epoch.
+   */
+  now: () => number
+
+  /**
+   * Calls a function after a delay.
+   * @param callback - The function to call.
+   * @param delayMilliseconds - The delay in milliseconds.
+   * @returns A timer that can be passed to `clearTimer`.
+   */
+  setTimer: (callback: () => void, delayMilliseconds: number) => unknown
+}
+
+/**
+ * The default clock, using `Date.now()` and `setTimeout()`.
+ */
+export const systemClock: Clock = {
+  clearTimer(timer) {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    clearTimeout(timer as NodeJS.Timeout | undefined)
+  },
+  now() {
+    return Date.now()
+  },
+  setTimer(callback, delayMilliseconds) {
+    return setTimeout(callback, delayMilliseconds)
+  }
+}
+
+interface ManualTimer {
+  callback: () => void
+  dueAt: number
+  id: number
+}
+
+/**
+ * A clock that only moves forward when `advanceBy` is called,
+ * so timed behaviour can be tested without waiting.
+ */
+export class ManualClock implements Clock {
+  private currentTime: number
+
+  private lastTimerId = 0
+
+  private readonly timers = new Map<number, ManualTimer>()
+
+  /**
+   * Creates a new ManualClock.
+   * @param startTime - The starting time, in milliseconds since the epoch. Default is 0.
+   */
+  constructor(startTime = 0) {
+    this.currentTime = startTime
+  }
+
+  /**
+   * Moves the clock forward, calling the timers that become due in order.
+   * @param milliseconds - The number of milliseconds to move forward.
+   */
+  public advanceBy(milliseconds: number): void {
+    const targetTime = this.currentTime + Math.max(0, milliseconds)
+
+    let timer = this.nextTimer(targetTime)
+
+    while (timer !== undefined) {
+      this.timers.delete(timer.id)
+      this.currentTime = Math.max(this.currentTime, timer.dueAt)
+      timer.callback()
+
+      timer = this.nextTimer(targetTime)
+    }
+
+    this.currentTime = targetTime
+  }
+
+  public clearTimer(timer: unknown): void {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    this.timers.delete(timer as number)
+  }
+
+  public now(): number {
+    return this.currentTime
+  }
+
+  public setTimer(callback: () => void, delayMilliseconds: number): number {
+    this.lastTimerId += 1
+
+    this.timers.set(this.lastTimerId, {
+      callback,
+      dueAt: this.currentTime + Math.max(0, delayMilliseconds),
+      id: this.lastTimerId
+    })
+
+    return this.lastTimerId
+  }
+
+  /**
+   * Gets the number of timers that have not been called or cleared.
+   * @returns The number of active timers.
+   */
+  public timerCount(): number {
+    return this.timers.size
+  }
+
+  /**
+   * Finds the timer that is due first, by the given time.
+   * @param targetTime - The latest due time.
+   * @returns The timer, or `undefined` if no timers are due.
+   */
+  private nextTimer(targetTime: number): ManualTimer | undefined {
+    let nextTimer: ManualTimer | undefined
+
+    for (const timer of this.timers.values()) {
+      if (
+        timer.dueAt <= targetTime &&
+        (nextTimer === undefined || timer.dueAt < nextTimer.dueAt)
+      ) {
+        nextTimer = timer
+      }
+    }
+
+    return nextTimer
+  }
+}
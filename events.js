@@ -0,0 +1,15 @@
+export const eventTypes = [
+    'batch',
+    'clear',
+    'deadLetter',
+    'dequeue',
+    'drain',
+    'duplicate',
+    'enqueue',
+    'error',
+    'overflow',
+    'pending',
+    'pendingCancel',
+    'pendingReset',
+    'remove'
+];
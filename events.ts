@@ -0,0 +1,173 @@
+export const eventTypes = [
+  'batch',
+  'clear',
+  'deadLetter',
+  'dequeue',
+  'drain',
+  'duplicate',
+  'enqueue',
+  'error',
+  'overflow',
+  'pending',
+  'pendingCancel',
+  'pendingReset',
+  'remove'
+] as const
+
+export type EventType = (typeof eventTypes)[number]
+
+export interface EntryEventDetails {
+  /**
+   * The key of the entry.
+   */
+  key: string
+}
+
+export interface BatchEventDetails {
+  /**
+   * Why the batch was dispatched.
+   * - `flush` - `enqueuePending()` was called.
+   * - `size` - The maximum batch size was reached.
+   * - `window` - The batch window passed since the first entry was ready.
+   */
+  reason: 'flush' | 'size' | 'window'
+}
+
+export interface ClearEventDetails {
+  /**
+   * The number of entries that were cleared.
+   */
+  count: number
+
+  /**
+   * The collection that was cleared.
+   */
+  target: 'deadLetter' | 'pending' | 'queue'
+}
+
+export interface DeadLetterEventDetails extends EntryEventDetails {
+  /**
+   * The errors from each failed processing attempt, oldest first.
+   */
+  errors: unknown[]
+}
+
+export interface DrainEventDetails {
+  /**
+   * The number of entries still pending when the queue was drained.
+   */
+  pendingCount: number
+}
+
+export interface DuplicateEventDetails extends EntryEventDetails {
+  /**
+   * Whether the entry was discarded, or merged into the entry already in the queue.
+   */
+  reason: 'discarded' | 'merged'
+}
+
+export interface ErrorEventDetails {
+  /**
+   * The event type of the listener that failed, when the error came from an event listener.
+   */
+  eventType?: EventType
+
+  /**
+   * Where the error came from.
+   */
+  source: 'listener' | 'shutdown' | 'store'
+}
+
+export interface OverflowEventDetails extends EntryEventDetails {
+  /**
+   * The key of the oldest entry, when it was dropped or promoted to make room.
+   */
+  evictedKey?: string
+
+  /**
+   * The limit that was reached.
+   */
+  limit: number
+
+  /**
+   * The overflow policy that was applied.
+   */
+  policy: 'dropNewest' | 'dropOldest' | 'promoteOldest' | 'reject'
+
+  /**
+   * The collection that was full.
+   */
+  target: 'pending' | 'queue'
+}
+
+export interface PendingEventDetails extends EntryEventDetails {
+  /**
+   * The delay in milliseconds before the entry is added to the queue.
+   */
+  delay: number
+}
+
+export interface PendingCancelEventDetails extends EntryEventDetails {
+  /**
+   * The function that cancelled the pending entry.
+   */
+  reason: 'clearPending' | 'clearPendingEntry' | 'overflow' | 'removeWhere'
+}
+
+/**
+ * The arguments passed to the listeners of each event type.
+ */
+export interface EventArguments<T> {
+  /** A group of entries was taken from the queue, when batching. */
+  batch: [entries: T[], details: BatchEventDetails]
+
+  /** All entries were cleared from the queue, the pending entries, or the dead-letter store. */
+  clear: [details: ClearEventDetails]
+
+  /** An entry exhausted its processing retries, and was moved to the dead-letter store. */
+  deadLetter: [entry: T, details: DeadLetterEventDetails]
+
+  /** An entry was removed from the queue. */
+  dequeue: [entry: T, details: EntryEventDetails]
+
+  /** The last entry was removed from the queue. */
+  drain: [details: DrainEventDetails]
+
+  /** An entry was not added to the queue, because an entry with the same key is already there. */
+  duplicate: [entry: T, details: DuplicateEventDetails]
+
+  /** An entry was added to the queue. */
+  enqueue: [entry: T, details: EntryEventDetails]
+
+  /** An event listener, the queue store, or the shutdown failed. */
+  error: [error: unknown, details: ErrorEventDetails]
+
+  /** An entry was enqueued when the queue or the pending entries were full. */
+  overflow: [entry: T, details: OverflowEventDetails]
+
+  /** An entry started waiting to be added to the queue. */
+  pending: [entry: T, details: PendingEventDetails]
+
+  /** A pending entry was cleared before being added to the queue. */
+  pendingCancel: [entry: T, details: PendingCancelEventDetails]
+
+  /** A pending entry was enqueued again, and its delay was reset. */
+  pendingReset: [entry: T, details: PendingEventDetails]
+
+  /** An entry was removed from the queue without being dequeued. */
+  remove: [entry: T, details: EntryEventDetails]
+}
+
+/**
+ * An event listener.
+ * Errors thrown by listeners, including rejected promises from async listeners,
+ * do not interrupt the queue or other listeners, and are dispatched as `error` events.
+ */
+export type EventListener<T, E extends EventType> = (
+  ...args: EventArguments<T>[E]
+) => Promise<void> | void
+
+export type ListenerErrorHandler = (
+  error: unknown,
+  eventType: EventType
+) => void
@@ -1,36 +1,398 @@
-export declare const eventTypes: readonly ["enqueue"];
-export type EventType = (typeof eventTypes)[number];
+import { EventEmitter } from 'node:events';
+import { type Clock } from './clock.js';
+import type { EventArguments, EventListener, EventType, ListenerErrorHandler } from './events.js';
+import { type MergeFunction } from './mergeStrategies.js';
+import { type ProcessHandler, type ProcessOptions, QueueProcessor } from './queueProcessor.js';
+import type { QueueStore, StoredQueueState } from './stores/types.js';
+export { type Clock, ManualClock } from './clock.js';
+export { type MergeFunction, mergeStrategies } from './mergeStrategies.js';
+export { JsonFileQueueStore } from './stores/jsonFileQueueStore.js';
+export type { QueueStore, ReadyEntries, StoredCollection, StoredPendingEntry, StoredQueueEntry, StoredQueueState } from './stores/types.js';
+export type { ProcessHandler, ProcessOptions, ProcessStopOptions, QueueProcessor, RetryResult } from './queueProcessor.js';
+export { type BatchEventDetails, type ClearEventDetails, type DeadLetterEventDetails, type DrainEventDetails, type DuplicateEventDetails, type EntryEventDetails, type ErrorEventDetails, type EventArguments, type EventListener, type EventType, eventTypes, type ListenerErrorHandler, type OverflowEventDetails, type PendingCancelEventDetails, type PendingEventDetails } from './events.js';
+/**
+ * How the delay of a pending entry is handled when the entry is enqueued again.
+ * - `debounce` - The delay is reset on every enqueue.
+ * - `fixed` - The delay starts on the first enqueue, and is not reset.
+ */
+export type TimingMode = 'debounce' | 'fixed';
+export interface PendingEntryMetadata<T> {
+    /**
+     * The time the entry is due to be added to the queue, in milliseconds since the epoch.
+     */
+    dueAt: number;
+    /**
+     * The time the entry was first enqueued, in milliseconds since the epoch.
+     */
+    enqueuedAt: number;
+    /**
+     * The time the entry was most recently enqueued, in milliseconds since the epoch.
+     */
+    lastEnqueuedAt: number;
+    value: T;
+}
+export interface PendingEntryInfo<T> extends PendingEntryMetadata<T> {
+    /**
+     * The delay in milliseconds that was requested for the entry.
+     */
+    delay: number;
+    /**
+     * The key of the entry.
+     */
+    key: string;
+    /**
+     * The time the delay was last reset, in milliseconds since the epoch,
+     * or `undefined` if it has not been reset.
+     */
+    lastResetAt?: number;
+    /**
+     * The number of times the delay was reset, by enqueuing the entry again.
+     */
+    resetCount: number;
+}
+export interface DeadLetterEntry<T> {
+    /**
+     * The time the entry was moved to the dead-letter store, in milliseconds since the epoch.
+     */
+    deadLetteredAt: number;
+    /**
+     * The errors from each failed processing attempt, oldest first.
+     */
+    errors: unknown[];
+    value: T;
+}
+export interface DequeueAsyncOptions {
+    /**
+     * A signal that cancels the wait when aborted.
+     */
+    signal?: AbortSignal;
+    /**
+     * The maximum time in milliseconds to wait for an entry.
+     */
+    timeoutMs?: number;
+}
+export interface DequeueBatchOptions {
+    /**
+     * The maximum number of entries in the batch.
+     * The batch is resolved as soon as this many entries are ready.
+     */
+    maxSize: number;
+    /**
+     * The maximum time in milliseconds to wait after the first entry is ready,
+     * before resolving with a smaller batch.
+     */
+    maxWaitMs: number;
+    /**
+     * A signal that cancels the wait when aborted.
+     */
+    signal?: AbortSignal;
+}
+export interface AddEventListenerOptions {
+    /**
+     * When `true`, the listener is removed after it is called once.
+     */
+    once?: boolean;
+    /**
+     * A signal that removes the listener when aborted.
+     */
+    signal?: AbortSignal;
+}
+/**
+ * Groups ready entries into `batch` events.
+ */
+export interface BatchOptions {
+    /**
+     * The number of ready entries that are dispatched together as soon as they are ready.
+     */
+    maxSize: number;
+    /**
+     * The time in milliseconds after the first entry is ready,
+     * before the ready entries are dispatched in smaller batches.
+     */
+    maxWaitMilliseconds: number;
+}
+/**
+ * What happens when an entry is added to the queue once it has reached its `maxSize`.
+ * - `dropNewest` - The new entry is dropped.
+ * - `dropOldest` - The oldest entry with the lowest priority is dropped to make room,
+ *   so higher priority entries are kept.
+ *   For pending entries, the oldest pending entry is dropped.
+ * - `reject` - `enqueue` throws a `QuotaExceededError`.
+ *   Entries that finish waiting while the queue is full are dropped.
+ */
+export type OverflowPolicy = 'dropNewest' | 'dropOldest' | 'reject';
+/**
+ * What happens when an entry is enqueued once the pending entries have reached their `maxPending`.
+ * Includes the `OverflowPolicy` options, applied to the pending entries, and:
+ * - `promoteOldest` - The oldest pending entry is added to the queue early to make room.
+ */
+export type PendingOverflowPolicy = OverflowPolicy | 'promoteOldest';
+/**
+ * What happens to pending entries when the queue is shut down.
+ * - `discard` - Pending entries are cleared.
+ * - `flush` - Pending entries are added to the queue,
+ *   and the queue is handed to the `shutdownDrain` callback.
+ * - `persist` - Pending entries are kept in the store, so they can be restored on startup.
+ */
+export type ShutdownPolicy = 'discard' | 'flush' | 'persist';
+/**
+ * Receives the queued entries when the queue is shut down with the `flush` policy.
+ */
+export type ShutdownDrain<T> = (entries: T[]) => Promise<void> | void;
+/**
+ * Receives the debug messages of a queue.
+ * Compatible with `debug` loggers and `console.log`.
+ */
+export type QueueLogger = (message: string, ...details: unknown[]) => void;
+export interface UniqueTimedEntryQueueOptions<T> {
+    /**
+     * When set, entries are taken from the queue in groups, and dispatched as `batch` events,
+     * when `maxSize` entries are ready, or `maxWaitMilliseconds` after the first entry is ready.
+     * Defaults to no batching.
+     */
+    batch?: BatchOptions;
+    /**
+     * Provides the current time and timers.
+     * Defaults to the system clock. Use a `ManualClock` to control time in tests.
+     */
+    clock?: Clock;
+    /**
+     * The delay in milliseconds before an entry is added to the queue.
+     * Ignored when the delay is passed to the constructor as a number.
+     * Defaults to 60000 (1 minute).
+     */
+    enqueueDelayMilliseconds?: number;
+    /**
+     * Returns the string key used to determine the uniqueness of an entry.
+     * Defaults to `valueToString`, which works best for numbers and strings.
+     */
+    getKey?: (entry: T) => string;
+    /**
+     * Returns the priority of an entry when it is added to the queue.
+     * Entries with higher priorities are dequeued first,
+     * and entries with the same priority are dequeued in the order they were added.
+     * When an entry that is already queued is enqueued again with a higher priority, it is moved up.
+     * Defaults to 0 for every entry.
+     */
+    getPriority?: (entry: T) => number;
+    /**
+     * Receives the debug messages of the queue.
+     * Defaults to a `debug` logger, in the `unique-timed-entry-queue:index` namespace.
+     */
+    logger?: QueueLogger;
+    /**
+     * The maximum number of pending entries.
+     * New entries that would exceed the limit are handled by the `pendingOverflowPolicy`.
+     * Defaults to no maximum.
+     */
+    maxPending?: number;
+    /**
+     * The maximum number of entries in the queue.
+     * New entries that would exceed the limit are handled by the `queueOverflowPolicy`.
+     * Defaults to no maximum.
+     */
+    maxSize?: number;
+    /**
+     * Combines an entry that is already pending with an incoming entry that has the same key.
+     * Defaults to `mergeStrategies.keepLatest`.
+     */
+    merge?: MergeFunction<T>;
+    /**
+     * When `true`, incoming entries are also merged into entries already in the queue,
+     * rather than being discarded as duplicates.
+     * Defaults to `false`.
+     */
+    mergeQueued?: boolean;
+    /**
+     * The maximum time in milliseconds an entry can remain pending
+     * when its delay keeps getting reset in `debounce` mode.
+     * Defaults to no maximum.
+     */
+    maxWaitMilliseconds?: number;
+    /**
+     * Called when an event listener throws an error, or returns a rejected promise.
+     * Listener errors are also dispatched as `error` events.
+     */
+    onListenerError?: ListenerErrorHandler;
+    /**
+     * A name for the queue, added to the namespace of the default logger
+     * to tell the messages of several queues apart.
+     */
+    name?: string;
+    /**
+     * What happens when an entry is enqueued once the pending entries have reached `maxPending`.
+     * Defaults to `dropNewest`.
+     */
+    pendingOverflowPolicy?: PendingOverflowPolicy;
+    /**
+     * What happens when an entry is added to the queue once it has reached `maxSize`.
+     * Defaults to `dropNewest`.
+     */
+    queueOverflowPolicy?: OverflowPolicy;
+    /**
+     * When `true`, the queue handles its pending entries when the process exits.
+     * Defaults to `true`.
+     */
+    registerExitHook?: boolean;
+    /**
+     * Receives the queued entries when the queue is shut down with the `flush` policy.
+     * Without it, the entries are left in the queue.
+     */
+    shutdownDrain?: ShutdownDrain<T>;
+    /**
+     * What happens to pending entries when the queue is shut down, or the process exits.
+     * When set to `flush` or `persist`, the queue is shut down asynchronously
+     * when the process exits because of a signal, or `gracefulExit()` from `exit-hook`.
+     * Defaults to `persist` when a `store` is set, and `discard` otherwise.
+     */
+    shutdownPolicy?: ShutdownPolicy;
+    /**
+     * The maximum time in milliseconds to wait for the `shutdownDrain` callback and the store.
+     * Defaults to 10000 (10 seconds).
+     */
+    shutdownTimeoutMilliseconds?: number;
+    /**
+     * A storage adapter that keeps pending and queued entries across restarts.
+     * Call `restore()` on startup to load the stored entries.
+     */
+    store?: QueueStore<T>;
+    /**
+     * How the delay of a pending entry is handled when the entry is enqueued again.
+     * Defaults to `debounce`.
+     */
+    timingMode?: TimingMode;
+}
+/**
+ * The serializable configuration of a queue, included in snapshots.
+ */
+export interface QueueSnapshotConfig {
+    batch?: BatchOptions;
+    enqueueDelayMilliseconds: number;
+    maxPending?: number;
+    maxSize?: number;
+    maxWaitMilliseconds?: number;
+    mergeQueued: boolean;
+    pendingOverflowPolicy?: PendingOverflowPolicy;
+    queueOverflowPolicy?: OverflowPolicy;
+    timingMode: TimingMode;
+}
+/**
+ * A lossless, serializable copy of the state of a queue.
+ */
+export interface QueueSnapshot<T> extends StoredQueueState<T> {
+    config: QueueSnapshotConfig;
+    /**
+     * The time the snapshot was taken, in milliseconds since the epoch.
+     */
+    takenAt: number;
+}
+export interface RestoreResult {
+    /**
+     * The number of pending entries restored with their remaining delay.
+     */
+    pending: number;
+    /**
+     * The number of entries restored to the queue,
+     * including pending entries whose delay passed while they were stored.
+     */
+    queue: number;
+}
 /**
  * A queue that enqueues unique entries after a specified delay.
+ * Events can be listened to using `addEventListener`,
+ * or any of the standard `EventEmitter` functions.
  */
-export default class UniqueTimedEntryQueue<T = number | string> {
+export default class UniqueTimedEntryQueue<T = number | string> extends EventEmitter<EventArguments<T>> {
+    private readonly batchOptions;
+    private batchTimeout;
+    private readonly batchWaiterCancels;
+    private readonly clock;
+    private readonly deadLetterEntries;
+    private readonly dequeueWaiters;
     private readonly enqueueDelayMilliseconds;
-    private readonly eventListeners;
-    private readonly pendingEntries;
+    private readonly eventListenerIds;
+    /**
+     * The time the first entry in the queue was added, or the time the last batch was taken.
+     */
+    private firstReadyAt;
+    private readonly getEntryKey;
+    private readonly getEntryPriority;
+    private readonly hasSharedQueue;
+    private readonly inFlightKeys;
+    private isDisposed;
+    private isPromotingPendingEntries;
+    private isShuttingDown;
+    private readonly log;
+    private readonly maxPending;
+    private readonly maxSize;
+    private readonly maxWaitMilliseconds;
+    private readonly mergeEntries;
+    private readonly mergeQueued;
+    private readonly onListenerError;
+    private readonly pendingEntriesByKey;
+    private readonly pendingOverflowPolicy;
+    private readonly pendingSchedule;
+    private pendingTimeout;
+    private pendingTimeoutDueAt;
     private readonly queue;
+    private readonly queueOverflowPolicy;
+    /**
+     * Called when entries are added to the queue, or released by a processor.
+     */
+    private readonly readyCallbacks;
+    private readonly shutdownDrain;
+    private readonly shutdownPolicy;
+    private shutdownPromise;
+    private readonly shutdownTimeoutMilliseconds;
+    private readonly store;
+    private storeOperations;
+    private readonly timingMode;
+    private readonly unsubscribeExitHooks;
+    /**
+     * Creates a new UniqueTimedEntryQueue.
+     * @param options - The queue options, including the `enqueueDelayMilliseconds`.
+     */
+    constructor(options?: UniqueTimedEntryQueueOptions<T>);
     /**
      * Creates a new UniqueTimedEntryQueue.
      * @param enqueueDelayMilliseconds - The delay in milliseconds before an entry is added to the queue. Default is 60000 (1 minute).
+     * @param options - Additional queue options.
      */
-    constructor(enqueueDelayMilliseconds?: number);
+    constructor(enqueueDelayMilliseconds?: number, options?: UniqueTimedEntryQueueOptions<T>);
+    /**
+     * Creates a new queue from a snapshot, with the pending entries rescheduled.
+     * Pending entries that are past due are added to the queue.
+     * @param snapshot - The snapshot, created by `snapshot()`.
+     * @param options - Additional queue options, such as `getKey` and `merge`, that cannot be included in a snapshot.
+     * @returns The new queue.
+     */
+    static fromSnapshot<T>(snapshot: QueueSnapshot<T>, options?: UniqueTimedEntryQueueOptions<T>): UniqueTimedEntryQueue<T>;
     /**
      * Adds an event listener for the specified event type.
      * @param eventType - The event type to listen for.
      * @param listener - The listener function to call when the event occurs.
+     * @param options - Listener options.
+     * @param options.once - When `true`, the listener is removed after it is called once.
+     * @param options.signal - A signal that removes the listener when aborted.
      * @returns A unique ID for the listener.
      */
-    addEventListener(eventType: EventType, listener: (entry: T) => void): string;
+    addEventListener<E extends EventType>(eventType: E, listener: EventListener<T, E>, options?: AddEventListenerOptions): string;
     /**
      * Clears all entries from the queue.
      * @returns The number of entries that were cleared.
      */
     clear(): number;
     /**
-     * Clears all entries from the queue and all pending entries.
-     * This is the same as calling both `clearPending` and `clear`.
+     * Clears all entries from the queue, all pending entries, and all dead-letter entries.
+     * This is the same as calling `clearPending`, `clear` and `clearDeadLetter`.
      * @returns The total number of entries that were cleared.
      */
     clearAll(): number;
+    /**
+     * Clears all entries from the dead-letter store.
+     * @returns The number of dead-letter entries that were cleared.
+     */
+    clearDeadLetter(): number;
     /**
      * Clears all pending entries.
      * This does not affect entries already in the queue.
@@ -44,19 +406,73 @@ export default class UniqueTimedEntryQueue<T = number | string> {
      * @returns True if the entry was found and cleared, false otherwise.
      */
     clearPendingEntry(entry: T): boolean;
+    /**
+     * Converts the dead-letter store to an array.
+     * @returns An array containing the entries that exhausted their processing retries, with their errors.
+     */
+    deadLetterToArray(): Array<DeadLetterEntry<T>>;
     /**
      * Dequeues an entry from the front of the queue.
      * @returns The dequeued entry, or undefined if the queue is empty.
      */
     dequeue(): T | undefined;
+    /**
+     * Dequeues an entry from the front of the queue,
+     * waiting for an entry to become available if the queue is empty.
+     * Multiple waiting calls receive different entries, in the order they were made.
+     * @param options - Options for the wait.
+     * @param options.signal - A signal that cancels the wait when aborted.
+     * @param options.timeoutMs - The maximum time in milliseconds to wait for an entry.
+     * @returns A promise that resolves with the dequeued entry.
+     * @throws {RangeError} If `timeoutMs` is NaN, infinite, or negative.
+     */
+    dequeueAsync(options?: DequeueAsyncOptions): Promise<T>;
+    /**
+     * Dequeues a group of entries,
+     * waiting until `maxSize` entries are ready, or `maxWaitMs` after the first entry is ready.
+     * @param options - Options for the batch.
+     * @param options.maxSize - The maximum number of entries in the batch.
+     * @param options.maxWaitMs - The maximum time in milliseconds to wait after the first entry is ready.
+     * @param options.signal - A signal that cancels the wait when aborted.
+     * @returns A promise that resolves with the dequeued entries, in queue order.
+     * @throws {RangeError} If `maxSize` is not a positive integer, or `maxWaitMs` is NaN, infinite, or negative.
+     */
+    dequeueBatch(options: DequeueBatchOptions): Promise<T[]>;
+    /**
+     * Dequeues up to a number of entries from the front of the queue.
+     * @param count - The maximum number of entries to dequeue.
+     * @returns The dequeued entries, in queue order. Fewer entries are returned if the queue runs out.
+     * @throws {RangeError} If the count is not a positive integer.
+     */
+    dequeueMany(count: number): T[];
+    /**
+     * Disposes of the queue, so it can be garbage collected.
+     * The exit hook is unregistered, the pending entry timer is stopped, and all listeners are removed.
+     * Waiting `dequeueAsync` and `dequeueBatch` calls are rejected, and `for await` loops end.
+     * Stored entries are kept, so they can be restored by another queue.
+     * Later calls to the queue functions throw an `InvalidStateError`.
+     */
+    dispose(): void;
+    /**
+     * Dequeues all entries in the queue.
+     * Pending entries are not affected.
+     * @returns The dequeued entries, in queue order.
+     */
+    drain(): T[];
     /**
      * Enqueues an entry **after the specified delay**.
-     * If the entry is already pending, the delay is reset.
-     * If the entry is already in the queue, it will not be added again.
+     * If the entry is already pending, the entries are merged and the delay is reset,
+     * unless the queue is in `fixed` timing mode, or the `maxWaitMilliseconds` has been reached.
+     * If the entry is already in the queue, it will not be added again,
+     * unless the `mergeQueued` option is set, in which case it is merged into the queued entry.
+     * If the `maxPending` or `maxSize` limit has been reached, the overflow policy is applied.
      * @param entry - The entry to enqueue.
      * @param entryDelayMilliseconds - Optional delay in milliseconds for this specific entry. If not provided, the default delay is used.
+     * @returns `false` if the entry was dropped because a limit was reached, `true` otherwise.
+     * @throws {RangeError} If the delay is NaN, infinite, or negative.
+     * @throws {DOMException} A `QuotaExceededError`, if a limit was reached and its overflow policy is `reject`.
      */
-    enqueue(entry: T, entryDelayMilliseconds?: number): void;
+    enqueue(entry: T, entryDelayMilliseconds?: number): boolean;
     /**
      * Enqueues a list of entries after the specified delay.
      * If an entry is already pending, the delay is reset.
@@ -65,6 +481,16 @@ export default class UniqueTimedEntryQueue<T = number | string> {
      * @param entryDelayMilliseconds - Optional delay in milliseconds for these specific entries. If not provided, the default delay is used.
      */
     enqueueAll(entries: T[], entryDelayMilliseconds?: number): void;
+    /**
+     * Enqueues an entry to be added to the queue at a specific time.
+     * Behaves like `enqueue`, with the delay set to the time remaining until `dueAt`.
+     * Times in the past add the entry to the queue immediately.
+     * @param entry - The entry to enqueue.
+     * @param dueAt - The time the entry is added to the queue.
+     * @returns `false` if the entry was dropped because a limit was reached, `true` otherwise.
+     * @throws {RangeError} If `dueAt` is an invalid date.
+     */
+    enqueueAt(entry: T, dueAt: Date): boolean;
     /**
      * Gets the enqueue delay in milliseconds.
      * @returns The enqueue delay in milliseconds.
@@ -72,8 +498,36 @@ export default class UniqueTimedEntryQueue<T = number | string> {
     enqueueDelay(): number;
     /**
      * Enqueues all pending entries, bypassing the delay.
+     * When batching, the ready entries are also dispatched, bypassing the batch window.
      */
     enqueuePending(): void;
+    /**
+     * Delays a pending entry further, without replacing its value.
+     * Dispatches a `pendingReset` event with the new remaining delay.
+     * @param entry - The pending entry.
+     * @param extraMilliseconds - The time in milliseconds to add to the due time of the entry.
+     * @returns `true` if the entry was pending, `false` otherwise.
+     * @throws {RangeError} If the extra time is NaN, infinite, or negative.
+     */
+    extendPendingEntry(entry: T, extraMilliseconds: number): boolean;
+    /**
+     * Waits for all changes to be written to the store,
+     * including the changes the store writes in the background.
+     */
+    flushStore(): Promise<void>;
+    /**
+     * Gets the details of a pending entry, including its due time and reset count.
+     * @param entry - The entry to look up.
+     * @returns The details of the pending entry, or `undefined` if the entry is not pending.
+     */
+    getPendingInfo(entry: T): PendingEntryInfo<T> | undefined;
+    /**
+     * Checks if an entry is in the queue, using its key.
+     * Pending entries are not included.
+     * @param entry - The entry to check.
+     * @returns `true` if an entry with the same key is in the queue, `false` otherwise.
+     */
+    has(entry: T): boolean;
     /**
      * Checks if there are pending entries.
      * @returns `true` if there are pending entries, `false` otherwise.
@@ -90,6 +544,16 @@ export default class UniqueTimedEntryQueue<T = number | string> {
      * @returns `true` if the queue is empty, `false` otherwise.
      */
     isEmpty(): boolean;
+    /**
+     * Gets the entry at the front of the queue, without removing it.
+     * @returns The entry that would be dequeued next, or `undefined` if the queue is empty.
+     */
+    peek(): T | undefined;
+    /**
+     * Lists the details of all pending entries, including their due times and reset counts.
+     * @returns The details of the pending entries, in the order they were first enqueued.
+     */
+    pendingEntries(): Array<PendingEntryInfo<T>>;
     /**
      * Gets the number of pending entries.
      * @returns The number of entries that are pending to be added to the queue.
@@ -97,15 +561,98 @@ export default class UniqueTimedEntryQueue<T = number | string> {
     pendingSize(): number;
     /**
      * Converts the pending entries to an array.
+     * @param includeMetadata - When `true`, each pending entry is returned with its due time,
+     * and the times it was first and last enqueued.
      * @returns An array containing the pending entries.
      */
     pendingToArray(): T[];
+    pendingToArray(includeMetadata: true): Array<PendingEntryMetadata<T>>;
+    /**
+     * Processes entries as they become available in the queue, using an async handler.
+     * While an entry is being handled, other entries with the same key are held in the queue,
+     * so the same key is never handled more than once at a time.
+     * @param handler - The function that handles each entry.
+     * @param options - Processing options.
+     * @param options.concurrency - The maximum number of entries handled at the same time. Default is 1.
+     * @param options.retries - The number of times a failed entry is retried. Default is 0.
+     * @param options.backoff - The retry delay in milliseconds, or a function that returns the delay for an attempt number.
+     * @returns A processor that can be paused, resumed and stopped.
+     */
+    process(handler: ProcessHandler<T>, options?: ProcessOptions): QueueProcessor<T>;
+    /**
+     * Adds a pending entry to the queue now, without waiting for its delay.
+     * If the entry is already in the queue, it is handled like any other duplicate.
+     * If the queue is full, the queue overflow policy is applied, and an entry that is not added stays pending.
+     * @param entry - The pending entry.
+     * @returns `true` if the entry was pending, `false` otherwise.
+     * @throws {DOMException} A `QuotaExceededError`, if the queue is full and its overflow policy is `reject`.
+     */
+    promotePendingEntry(entry: T): boolean;
+    /**
+     * Removes an entry from the queue, without dequeuing it.
+     * Pending entries are not affected. Use `clearPendingEntry` to clear a pending entry.
+     * @param entry - The entry to remove. Entries are matched by key.
+     * @returns `true` if the entry was found and removed, `false` otherwise.
+     */
+    remove(entry: T): boolean;
     /**
      * Removes an event listener.
      * @param eventType - The event type.
-     * @param listenerId - The unique ID of the listener to remove.
+     * @param listenerIdOrListener - The unique ID of the listener to remove, or the listener function itself.
+     */
+    removeEventListener<E extends EventType>(eventType: E, listenerIdOrListener: EventListener<T, E> | string): void;
+    /**
+     * Removes the entries that match a predicate, from both the queue and the pending entries.
+     * @param predicate - Returns `true` for the entries to remove.
+     * @returns The number of queued and pending entries that were removed.
+     */
+    removeWhere(predicate: (entry: T, key: string) => boolean): number;
+    /**
+     * Changes when a pending entry is added to the queue, without replacing its value.
+     * The new delay starts now, and is not limited by `maxWaitMilliseconds`.
+     * Dispatches a `pendingReset` event with the new delay.
+     * @param entry - The pending entry.
+     * @param delayMilliseconds - The new delay in milliseconds, from now.
+     * @returns `true` if the entry was pending, `false` otherwise.
+     * @throws {RangeError} If the delay is NaN, infinite, or negative.
+     */
+    reschedulePendingEntry(entry: T, delayMilliseconds: number): boolean;
+    /**
+     * Loads the pending and queued entries from the store.
+     * Pending entries are restored with their remaining delay,
+     * and pending entries whose delay passed while they were stored are added to the queue.
+     * Should be called on startup, before entries are enqueued.
+     * @returns The number of restored pending and queued entries.
+     */
+    restore(): Promise<RestoreResult>;
+    /**
+     * Moves an entry from the dead-letter store back into the queue.
+     * @param entry - The entry to retry.
+     * @param entryDelayMilliseconds - Optional delay in milliseconds before the entry is added to the queue. Default is 0.
+     * @returns `true` if the entry was moved back into the queue,
+     * `false` if it was not found in the dead-letter store, or was dropped because the queue is full.
+     * @throws {DOMException} A `QuotaExceededError`, if the queue is full and the overflow policy is `reject`.
+     * The entry is kept in the dead-letter store.
+     */
+    retryDeadLetter(entry: T, entryDelayMilliseconds?: number): boolean;
+    /**
+     * Shuts down the queue using the shutdown policy, then disposes of it.
+     * - `discard` - Pending entries are cleared.
+     * - `flush` - Pending entries are added to the queue,
+     *   then the queued entries are dequeued and handed to the `shutdownDrain` callback.
+     * - `persist` - Pending entries are kept in the store.
+     * Waits for the `shutdownDrain` callback and the store, up to the `shutdownTimeoutMilliseconds`.
+     * Errors and timeouts are dispatched as `error` events with a `source` of `'shutdown'`.
+     * Useful in a `SIGTERM` handler. Calling it again returns the same promise.
      */
-    removeEventListener(eventType: EventType, listenerId: string): void;
+    shutdown(): Promise<void>;
+    /**
+     * Creates a lossless, serializable copy of the queue,
+     * including the queued entries, the pending entries with their due times, and the configuration.
+     * Functions, like `getKey` and `merge`, are not included.
+     * @returns The snapshot.
+     */
+    snapshot(): QueueSnapshot<T>;
     /**
      * Gets the size of the queue.
      * @returns The number of entries in the queue.
@@ -116,5 +663,172 @@ export default class UniqueTimedEntryQueue<T = number | string> {
      * @returns An array containing the entries in the queue.
      */
     toArray(): T[];
+    /**
+     * Converts the queue to a snapshot when serialized with `JSON.stringify`.
+     * @returns The snapshot.
+     */
+    toJSON(): QueueSnapshot<T>;
+    /**
+     * Iterates over entries as they become available,
+     * dequeuing each one using `dequeueAsync`.
+     * The iteration ends when the queue is disposed.
+     * @yields The dequeued entries.
+     */
+    [Symbol.asyncIterator](): AsyncGenerator<T, void, undefined>;
+    /**
+     * Disposes of the queue, then waits for all changes to be written to the store.
+     * Called at the end of an `await using` block.
+     */
+    [Symbol.asyncDispose](): Promise<void>;
+    /**
+     * Disposes of the queue.
+     * Called at the end of a `using` block.
+     */
+    [Symbol.dispose](): void;
+    private afterDequeue;
+    private addDeadLetterEntry;
+    /**
+     * Arms the batch timer, so the ready entries are dispatched
+     * once the batch window has passed since the first entry was ready.
+     */
+    private armBatchTimeout;
+    /**
+     * Arms the pending timer for the pending entry that is due first.
+     * A timer that is already armed for an earlier time is kept,
+     * and re-armed when it fires, so removing or delaying pending entries does not restart it.
+     */
+    private armPendingTimeout;
+    private assertNotDisposed;
+    /**
+     * Handles the pending entries using the shutdown policy.
+     * Runs synchronously, so it can also be used when the process exits.
+     */
+    private beginShutdown;
+    private cancelPendingEntry;
+    /**
+     * Moves the due time of a pending entry, keeping its value,
+     * and dispatches a `pendingReset` event with the remaining delay.
+     * @param entryKey - The key of the pending entry.
+     * @param pendingEntry - The pending entry.
+     * @param delay - The new requested delay.
+     * @param dueAt - The new due time.
+     */
+    private changePendingDueTime;
+    private deletePendingEntry;
+    /**
+     * Dispatches full batches of ready entries as `batch` events,
+     * then arms the batch timer for the entries that remain.
+     */
+    private dispatchBatches;
+    /**
+     * Hands the queued entries to the `shutdownDrain` callback, when using the `flush` policy,
+     * then waits for all changes to be written to the store.
+     */
+    private finishShutdown;
+    /**
+     * Dispatches all ready entries as `batch` events, without waiting for full batches.
+     * @param reason - Why the batches were dispatched early.
+     */
+    private flushBatches;
+    private handleListenerError;
+    /**
+     * Adds stored entries to the queue.
+     * Pending entries are scheduled with their remaining delay,
+     * and pending entries that are past due are added to the queue.
+     * @param state - The stored entries.
+     * @returns The number of pending and queued entries that were added.
+     */
+    private loadState;
+    /**
+     * Applies the pending overflow policy when the pending entries are full.
+     * @param entryKey - The key of the new pending entry.
+     * @param entry - The new pending entry.
+     * @returns `true` if there is room for the entry, `false` if it was dropped.
+     * @throws {DOMException} A `QuotaExceededError`, if the policy is `reject`.
+     */
+    private makeRoomInPending;
+    /**
+     * Applies the queue overflow policy when the queue is full,
+     * unless the entry is already queued.
+     * @param entryKey - The key of the entry being added to the queue.
+     * @param entry - The entry being added to the queue.
+     * @param canReject - When `true`, the `reject` policy throws, rather than dropping the entry.
+     * @returns `true` if there is room for the entry, `false` if it was dropped.
+     * @throws {DOMException} A `QuotaExceededError`, if the policy is `reject` and `canReject` is `true`.
+     */
+    private makeRoomInQueue;
+    /**
+     * Moves a pending entry to the queue, once its delay has passed or when it is promoted early.
+     * @param entryKey - The key of the pending entry.
+     */
+    private movePendingEntryToQueue;
+    private notifyReadyCallbacks;
+    /**
+     * Runs a store operation after all previous store operations have completed.
+     * Store errors are dispatched as `error` events.
+     * @param operation - The store operation.
+     */
+    private persist;
+    /**
+     * Moves the pending entries whose delay has passed to the queue,
+     * then re-arms the pending timer for the next pending entry.
+     */
+    private promoteDuePendingEntries;
+    /**
+     * Adds an entry to the end of its priority in the queue, unless an entry with the same key is already queued.
+     * A queued entry with the same key is moved up if the new priority is higher.
+     * @param entryKey - The key of the entry.
+     * @param entry - The entry to add.
+     * @param priority - The priority of the entry. Defaults to the result of the `getPriority` option.
+     * @returns `true` if the entry was added, `false` if it was a duplicate or the queue is full.
+     */
+    private pushEntry;
+    private removeFromStore;
+    /**
+     * Removes an entry from the queue, without dequeuing it.
+     * @param entryKey - The key of the entry.
+     * @returns `true` if the entry was removed, `false` if it was not queued.
+     */
+    private removeQueuedEntry;
+    /**
+     * Hands queued entries to waiting `dequeueAsync` calls, in order.
+     */
+    private resolveDequeueWaiters;
+    /**
+     * Removes up to a number of entries from the front of the queue,
+     * and restarts the batch window for the entries that remain.
+     * @param maxSize - The maximum number of entries to remove.
+     * @returns The removed entries, in queue order.
+     */
+    /**
+     * Re-enqueues an entry that failed while it was being processed.
+     * When a newer entry with the same key is pending or queued,
+     * the failed entry is merged into it as the existing value, so the newer update is kept.
+     * @param entry - The failed entry.
+     * @param delay - The retry delay in milliseconds, or `undefined` for the default delay.
+     * @returns Whether the entry was re-enqueued, merged into a newer entry, or dropped.
+     */
+    private retryFailedEntry;
+    private takeBatch;
+    /**
+     * Removes the first entry from the queue whose key is not already in flight,
+     * and marks its key as in flight.
+     * @returns The entry and its key, or `undefined` if there is no entry to process.
+     */
+    private takeProcessableEntry;
+    private runShutdown;
+    private savePendingToStore;
+    private saveQueueToStore;
+    /**
+     * Schedules a pending entry, replacing any existing pending entry with the same key.
+     * @param entryKey - The key of the entry.
+     * @param pendingEntry - The pending entry.
+     */
+    private schedulePendingEntry;
+    /**
+     * Removes the entry at the front of the queue.
+     * @returns The removed entry and its key, or undefined if the queue is empty.
+     */
+    private shiftEntry;
     private triggerEvents;
 }
@@ -1,47 +1,269 @@
+import { EventEmitter } from 'node:events';
 import Debug from 'debug';
-import exitHook from 'exit-hook';
+import exitHook, { asyncExitHook } from 'exit-hook';
+import { systemClock } from './clock.js';
 import { DEBUG_NAMESPACE } from './debug.config.js';
-import { generateUniqueListenerId, valueToString } from './utilities.js';
+import { mergeStrategies } from './mergeStrategies.js';
+import { QueueProcessor } from './queueProcessor.js';
+import { PendingSchedule } from './pendingSchedule.js';
+import { MemoryReadyEntries } from './readyEntries.js';
+import { assertValidMilliseconds, assertValidSize, generateUniqueListenerId, valueToString } from './utilities.js';
 const debug = Debug(`${DEBUG_NAMESPACE}:index`);
-export const eventTypes = ['enqueue'];
+/**
+ * The extra time given to the exit hook, after the shutdown timeout,
+ * before the process is forced to exit.
+ */
+const exitHookWaitMarginMilliseconds = 1000;
+/**
+ * The longest delay `setTimeout()` supports.
+ * Longer delays fire immediately, so the pending timer is re-armed in steps instead.
+ */
+const maxTimerDelayMilliseconds = 2_147_483_647;
+function createDisposedError() {
+    return new DOMException('The queue has been disposed.', 'InvalidStateError');
+}
+function createOverflowError(target, limit) {
+    return new DOMException(target === 'queue'
+        ? `The queue is full (maxSize: ${limit}).`
+        : `The pending entries are full (maxPending: ${limit}).`, 'QuotaExceededError');
+}
+/**
+ * Converts a pending entry to its stored form,
+ * leaving out the reset details of entries that have not been reset.
+ * @param entryKey - The key of the entry.
+ * @param pendingEntry - The pending entry.
+ * @returns The stored pending entry.
+ */
+function toStoredPendingEntry(entryKey, pendingEntry) {
+    const storedEntry = {
+        delay: pendingEntry.delay,
+        dueAt: pendingEntry.dueAt,
+        enqueuedAt: pendingEntry.enqueuedAt,
+        key: entryKey,
+        lastEnqueuedAt: pendingEntry.lastEnqueuedAt,
+        value: pendingEntry.value
+    };
+    if (pendingEntry.resetCount > 0) {
+        storedEntry.lastResetAt = pendingEntry.lastResetAt;
+        storedEntry.resetCount = pendingEntry.resetCount;
+    }
+    return storedEntry;
+}
+export { ManualClock } from './clock.js';
+export { mergeStrategies } from './mergeStrategies.js';
+export { JsonFileQueueStore } from './stores/jsonFileQueueStore.js';
+export { eventTypes } from './events.js';
+const overflowPolicies = [
+    'dropNewest',
+    'dropOldest',
+    'reject'
+];
 /**
  * A queue that enqueues unique entries after a specified delay.
+ * Events can be listened to using `addEventListener`,
+ * or any of the standard `EventEmitter` functions.
  */
-export default class UniqueTimedEntryQueue {
+export default class UniqueTimedEntryQueue extends EventEmitter {
+    batchOptions;
+    batchTimeout;
+    batchWaiterCancels;
+    clock;
+    deadLetterEntries;
+    dequeueWaiters;
     enqueueDelayMilliseconds;
-    eventListeners;
-    pendingEntries;
+    eventListenerIds;
+    /**
+     * The time the first entry in the queue was added, or the time the last batch was taken.
+     */
+    firstReadyAt = 0;
+    getEntryKey;
+    getEntryPriority;
+    hasSharedQueue;
+    inFlightKeys;
+    isDisposed = false;
+    isPromotingPendingEntries = false;
+    isShuttingDown = false;
+    log;
+    maxPending;
+    maxSize;
+    maxWaitMilliseconds;
+    mergeEntries;
+    mergeQueued;
+    onListenerError;
+    pendingEntriesByKey;
+    pendingOverflowPolicy;
+    pendingSchedule;
+    pendingTimeout;
+    pendingTimeoutDueAt = 0;
     queue;
+    queueOverflowPolicy;
+    /**
+     * Called when entries are added to the queue, or released by a processor.
+     */
+    readyCallbacks;
+    shutdownDrain;
+    shutdownPolicy;
+    shutdownPromise;
+    shutdownTimeoutMilliseconds;
+    store;
+    storeOperations = Promise.resolve();
+    timingMode;
+    unsubscribeExitHooks = [];
     /**
      * Creates a new UniqueTimedEntryQueue.
-     * @param enqueueDelayMilliseconds - The delay in milliseconds before an entry is added to the queue. Default is 60000 (1 minute).
+     * @param enqueueDelayOrOptions - The delay in milliseconds before an entry is added to the queue, or the queue options.
+     * @param queueOptions - Additional queue options, when the delay is passed as a number.
+     * @throws {RangeError} If a delay or size option is NaN, infinite, or negative.
+     * @throws {TypeError} If an overflow policy is unknown,
+     * or the `persist` shutdown policy is used without a store.
      */
-    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
-    constructor(enqueueDelayMilliseconds = 60_000) {
-        this.enqueueDelayMilliseconds = Math.max(0, enqueueDelayMilliseconds);
-        if (enqueueDelayMilliseconds === 0) {
-            debug('Warning: enqueueDelayMilliseconds is set to 0, entries will be added immediately and uniqueness will not be enforced.');
+    constructor(enqueueDelayOrOptions, queueOptions = {}) {
+        super();
+        // An undefined delay is the numeric form, so the default delay is used with `queueOptions`.
+        const options = typeof enqueueDelayOrOptions === 'object'
+            ? enqueueDelayOrOptions
+            : {
+                ...queueOptions,
+                enqueueDelayMilliseconds: enqueueDelayOrOptions ?? queueOptions.enqueueDelayMilliseconds
+            };
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        this.enqueueDelayMilliseconds = options.enqueueDelayMilliseconds ?? 60_000;
+        assertValidMilliseconds('enqueueDelayMilliseconds', this.enqueueDelayMilliseconds);
+        if (options.maxWaitMilliseconds !== undefined) {
+            assertValidMilliseconds('maxWaitMilliseconds', options.maxWaitMilliseconds);
         }
-        this.eventListeners = {
-            enqueue: {}
-        };
-        this.pendingEntries = new Map();
-        this.queue = [];
-        exitHook(() => {
-            debug(`Process exiting, clearing ${this.pendingEntries.size} pending entry timeouts.`);
-            this.clearPending();
+        if (options.maxPending !== undefined) {
+            assertValidSize('maxPending', options.maxPending);
+        }
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        this.shutdownTimeoutMilliseconds =
+            options.shutdownTimeoutMilliseconds ?? 10_000;
+        assertValidMilliseconds('shutdownTimeoutMilliseconds', this.shutdownTimeoutMilliseconds);
+        if (options.maxSize !== undefined) {
+            assertValidSize('maxSize', options.maxSize);
+        }
+        if (options.batch !== undefined) {
+            assertValidSize('batch.maxSize', options.batch.maxSize);
+            assertValidMilliseconds('batch.maxWaitMilliseconds', options.batch.maxWaitMilliseconds);
+        }
+        this.log =
+            options.logger ??
+                (options.name === undefined ? debug : debug.extend(options.name));
+        this.getEntryKey = options.getKey ?? valueToString;
+        this.getEntryPriority = options.getPriority ?? (() => 0);
+        this.mergeEntries = options.merge ?? mergeStrategies.keepLatest;
+        this.mergeQueued = options.mergeQueued ?? false;
+        this.timingMode = options.timingMode ?? 'debounce';
+        this.maxWaitMilliseconds = options.maxWaitMilliseconds;
+        this.maxPending = options.maxPending;
+        this.maxSize = options.maxSize;
+        this.pendingOverflowPolicy = options.pendingOverflowPolicy ?? 'dropNewest';
+        this.queueOverflowPolicy = options.queueOverflowPolicy ?? 'dropNewest';
+        this.onListenerError = options.onListenerError;
+        this.store = options.store;
+        this.clock = options.clock ?? systemClock;
+        this.shutdownPolicy =
+            options.shutdownPolicy ??
+                (this.store === undefined ? 'discard' : 'persist');
+        this.shutdownDrain = options.shutdownDrain;
+        if (this.pendingOverflowPolicy !== 'promoteOldest' &&
+            !overflowPolicies.includes(this.pendingOverflowPolicy)) {
+            throw new TypeError(`Unknown pending overflow policy: ${this.pendingOverflowPolicy}`);
+        }
+        if (!overflowPolicies.includes(this.queueOverflowPolicy)) {
+            throw new TypeError(`Unknown queue overflow policy: ${this.queueOverflowPolicy}`);
+        }
+        if (this.shutdownPolicy === 'persist' && this.store === undefined) {
+            throw new TypeError('The "persist" shutdown policy requires a store.');
+        }
+        if (this.enqueueDelayMilliseconds === 0) {
+            this.log('Warning: enqueueDelayMilliseconds is set to 0, entries will be added immediately and uniqueness will not be enforced.');
+        }
+        this.eventListenerIds = new Map();
+        this.pendingEntriesByKey = new Map();
+        this.pendingSchedule = new PendingSchedule();
+        const sharedQueue = this.store?.createReadyEntries?.();
+        this.queue = sharedQueue ?? new MemoryReadyEntries();
+        this.hasSharedQueue = sharedQueue !== undefined;
+        this.dequeueWaiters = [];
+        this.deadLetterEntries = new Map();
+        this.inFlightKeys = new Set();
+        this.readyCallbacks = new Set();
+        this.batchOptions = options.batch;
+        this.batchWaiterCancels = new Set();
+        if (this.batchOptions !== undefined) {
+            this.readyCallbacks.add(() => {
+                this.dispatchBatches();
+            });
+        }
+        if (options.registerExitHook ?? true) {
+            this.unsubscribeExitHooks.push(exitHook(() => {
+                this.log(`Process exiting, handling ${this.pendingEntriesByKey.size} pending entries with the "${this.shutdownPolicy}" policy.`);
+                this.beginShutdown();
+            }));
+            if (this.shutdownPolicy === 'flush' ||
+                this.shutdownPolicy === 'persist') {
+                this.unsubscribeExitHooks.push(asyncExitHook(async () => {
+                    await this.shutdown();
+                }, {
+                    wait: this.shutdownTimeoutMilliseconds +
+                        exitHookWaitMarginMilliseconds
+                }));
+            }
+        }
+    }
+    /**
+     * Creates a new queue from a snapshot, with the pending entries rescheduled.
+     * Pending entries that are past due are added to the queue.
+     * @param snapshot - The snapshot, created by `snapshot()`.
+     * @param options - Additional queue options, such as `getKey` and `merge`, that cannot be included in a snapshot.
+     * @returns The new queue.
+     */
+    static fromSnapshot(snapshot, options = {}) {
+        const queue = new UniqueTimedEntryQueue({
+            ...snapshot.config,
+            ...options
         });
+        queue.loadState(snapshot);
+        return queue;
     }
     /**
      * Adds an event listener for the specified event type.
      * @param eventType - The event type to listen for.
      * @param listener - The listener function to call when the event occurs.
+     * @param options - Listener options.
+     * @param options.once - When `true`, the listener is removed after it is called once.
+     * @param options.signal - A signal that removes the listener when aborted.
      * @returns A unique ID for the listener.
      */
-    addEventListener(eventType, listener) {
+    addEventListener(eventType, listener, options = {}) {
+        this.assertNotDisposed();
         const listenerId = generateUniqueListenerId();
-        // eslint-disable-next-line security/detect-object-injection
-        this.eventListeners[eventType][listenerId] = listener;
+        if (options.signal?.aborted ?? false) {
+            return listenerId;
+        }
+        const emitterListener = listener;
+        let registeredListener = emitterListener;
+        if (options.once ?? false) {
+            const onceListener = (...eventArguments) => {
+                this.removeEventListener(eventType, listenerId);
+                return listener.apply(this, eventArguments);
+            };
+            // Links the wrapper to the listener, like `EventEmitter.once`,
+            // so `off` and `removeListener` can remove it with the original function.
+            registeredListener = Object.assign(onceListener, {
+                listener: emitterListener
+            });
+        }
+        this.eventListenerIds.set(listenerId, {
+            eventType,
+            listener: emitterListener,
+            registeredListener
+        });
+        this.on(eventType, registeredListener);
+        options.signal?.addEventListener('abort', () => {
+            this.removeEventListener(eventType, listenerId);
+        }, { once: true });
         return listenerId;
     }
     /**
@@ -49,19 +271,38 @@ export default class UniqueTimedEntryQueue {
      * @returns The number of entries that were cleared.
      */
     clear() {
-        const clearedCount = this.queue.length;
-        this.queue.length = 0;
+        this.assertNotDisposed();
+        for (const queueEntry of this.queue.entries()) {
+            this.removeFromStore(queueEntry.key, 'queue');
+        }
+        const clearedCount = this.queue.clear();
+        this.triggerEvents('clear', { count: clearedCount, target: 'queue' });
         return clearedCount;
     }
     /**
-     * Clears all entries from the queue and all pending entries.
-     * This is the same as calling both `clearPending` and `clear`.
+     * Clears all entries from the queue, all pending entries, and all dead-letter entries.
+     * This is the same as calling `clearPending`, `clear` and `clearDeadLetter`.
      * @returns The total number of entries that were cleared.
      */
     clearAll() {
         const clearedPending = this.clearPending();
         const clearedQueue = this.clear();
-        return clearedPending + clearedQueue;
+        const clearedDeadLetter = this.clearDeadLetter();
+        return clearedPending + clearedQueue + clearedDeadLetter;
+    }
+    /**
+     * Clears all entries from the dead-letter store.
+     * @returns The number of dead-letter entries that were cleared.
+     */
+    clearDeadLetter() {
+        this.assertNotDisposed();
+        const deadLetterCount = this.deadLetterEntries.size;
+        this.deadLetterEntries.clear();
+        this.triggerEvents('clear', {
+            count: deadLetterCount,
+            target: 'deadLetter'
+        });
+        return deadLetterCount;
     }
     /**
      * Clears all pending entries.
@@ -70,11 +311,12 @@ export default class UniqueTimedEntryQueue {
      * @returns The number of pending entries that were cleared.
      */
     clearPending() {
-        for (const timeout of this.pendingEntries.values()) {
-            clearTimeout(timeout.timeout);
+        this.assertNotDisposed();
+        const pendingCount = this.pendingEntriesByKey.size;
+        for (const [entryKey, pendingEntry] of this.pendingEntriesByKey) {
+            this.cancelPendingEntry(entryKey, pendingEntry, 'clearPending');
         }
-        const pendingCount = this.pendingEntries.size;
-        this.pendingEntries.clear();
+        this.triggerEvents('clear', { count: pendingCount, target: 'pending' });
         return pendingCount;
     }
     /**
@@ -83,54 +325,277 @@ export default class UniqueTimedEntryQueue {
      * @returns True if the entry was found and cleared, false otherwise.
      */
     clearPendingEntry(entry) {
-        const stringEntry = valueToString(entry);
-        if (this.pendingEntries.has(stringEntry)) {
-            debug(`Clearing pending entry timeout: ${stringEntry}`);
-            clearTimeout(this.pendingEntries.get(stringEntry)?.timeout);
-            this.pendingEntries.delete(stringEntry);
+        this.assertNotDisposed();
+        const entryKey = this.getEntryKey(entry);
+        const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+        if (pendingEntry !== undefined) {
+            this.log(`Clearing pending entry: ${entryKey}`);
+            this.cancelPendingEntry(entryKey, pendingEntry, 'clearPendingEntry');
             return true;
         }
         return false;
     }
+    /**
+     * Converts the dead-letter store to an array.
+     * @returns An array containing the entries that exhausted their processing retries, with their errors.
+     */
+    deadLetterToArray() {
+        this.assertNotDisposed();
+        return [...this.deadLetterEntries.values()].map((deadLetterEntry) => ({
+            ...deadLetterEntry,
+            errors: [...deadLetterEntry.errors]
+        }));
+    }
     /**
      * Dequeues an entry from the front of the queue.
      * @returns The dequeued entry, or undefined if the queue is empty.
      */
     dequeue() {
-        return this.queue.shift();
+        this.assertNotDisposed();
+        return this.shiftEntry()?.value;
+    }
+    /**
+     * Dequeues an entry from the front of the queue,
+     * waiting for an entry to become available if the queue is empty.
+     * Multiple waiting calls receive different entries, in the order they were made.
+     * @param options - Options for the wait.
+     * @param options.signal - A signal that cancels the wait when aborted.
+     * @param options.timeoutMs - The maximum time in milliseconds to wait for an entry.
+     * @returns A promise that resolves with the dequeued entry.
+     * @throws {RangeError} If `timeoutMs` is NaN, infinite, or negative.
+     */
+    async dequeueAsync(options = {}) {
+        this.assertNotDisposed();
+        const { signal, timeoutMs } = options;
+        if (timeoutMs !== undefined) {
+            assertValidMilliseconds('timeoutMs', timeoutMs);
+        }
+        signal?.throwIfAborted();
+        const queueEntry = this.shiftEntry();
+        if (queueEntry !== undefined) {
+            return queueEntry.value;
+        }
+        // eslint-disable-next-line promise/avoid-new
+        return await new Promise((resolve, reject) => {
+            let timeout;
+            const listenerController = new AbortController();
+            const waiter = {
+                reject: (reason) => {
+                    this.clock.clearTimer(timeout);
+                    listenerController.abort();
+                    reject(reason);
+                },
+                resolve: (entry) => {
+                    this.clock.clearTimer(timeout);
+                    listenerController.abort();
+                    resolve(entry);
+                }
+            };
+            const cancel = (reason) => {
+                const waiterIndex = this.dequeueWaiters.indexOf(waiter);
+                if (waiterIndex !== -1) {
+                    this.dequeueWaiters.splice(waiterIndex, 1);
+                }
+                waiter.reject(reason);
+            };
+            signal?.addEventListener('abort', () => {
+                cancel(signal.reason);
+            }, { once: true, signal: listenerController.signal });
+            if (timeoutMs !== undefined) {
+                const timeoutAt = this.clock.now() + timeoutMs;
+                // Long waits are split into timers within the limit of `setTimeout`.
+                const armTimeout = () => {
+                    const remainingMilliseconds = timeoutAt - this.clock.now();
+                    if (remainingMilliseconds > 0) {
+                        timeout = this.clock.setTimer(armTimeout, Math.min(maxTimerDelayMilliseconds, remainingMilliseconds));
+                        return;
+                    }
+                    cancel(new DOMException(`No entry was dequeued within ${timeoutMs} milliseconds.`, 'TimeoutError'));
+                };
+                timeout = this.clock.setTimer(armTimeout, Math.min(maxTimerDelayMilliseconds, timeoutMs));
+            }
+            this.dequeueWaiters.push(waiter);
+        });
+    }
+    /**
+     * Dequeues a group of entries,
+     * waiting until `maxSize` entries are ready, or `maxWaitMs` after the first entry is ready.
+     * @param options - Options for the batch.
+     * @param options.maxSize - The maximum number of entries in the batch.
+     * @param options.maxWaitMs - The maximum time in milliseconds to wait after the first entry is ready.
+     * @param options.signal - A signal that cancels the wait when aborted.
+     * @returns A promise that resolves with the dequeued entries, in queue order.
+     * @throws {RangeError} If `maxSize` is not a positive integer, or `maxWaitMs` is NaN, infinite, or negative.
+     */
+    async dequeueBatch(options) {
+        this.assertNotDisposed();
+        const { maxSize, maxWaitMs, signal } = options;
+        assertValidSize('maxSize', maxSize);
+        assertValidMilliseconds('maxWaitMs', maxWaitMs);
+        signal?.throwIfAborted();
+        // eslint-disable-next-line promise/avoid-new
+        return await new Promise((resolve, reject) => {
+            let timeout;
+            const listenerController = new AbortController();
+            const waiter = {
+                check: () => {
+                    if (this.queue.size() >= maxSize) {
+                        waiter.resolve();
+                    }
+                    else if (timeout === undefined && this.queue.size() > 0) {
+                        timeout = this.clock.setTimer(() => {
+                            timeout = undefined;
+                            if (this.queue.size() > 0) {
+                                waiter.resolve();
+                            }
+                        }, Math.max(0, this.firstReadyAt + maxWaitMs - this.clock.now()));
+                    }
+                },
+                reject: (reason) => {
+                    waiter.stop();
+                    reject(reason);
+                },
+                resolve: () => {
+                    waiter.stop();
+                    resolve(this.takeBatch(maxSize));
+                },
+                stop: () => {
+                    this.clock.clearTimer(timeout);
+                    this.readyCallbacks.delete(waiter.check);
+                    this.batchWaiterCancels.delete(waiter.reject);
+                    listenerController.abort();
+                }
+            };
+            signal?.addEventListener('abort', () => {
+                waiter.reject(signal.reason);
+            }, { once: true, signal: listenerController.signal });
+            this.readyCallbacks.add(waiter.check);
+            this.batchWaiterCancels.add(waiter.reject);
+            waiter.check();
+        });
+    }
+    /**
+     * Dequeues up to a number of entries from the front of the queue.
+     * @param count - The maximum number of entries to dequeue.
+     * @returns The dequeued entries, in queue order. Fewer entries are returned if the queue runs out.
+     * @throws {RangeError} If the count is not a positive integer.
+     */
+    dequeueMany(count) {
+        this.assertNotDisposed();
+        assertValidSize('count', count);
+        return this.takeBatch(count);
+    }
+    /**
+     * Disposes of the queue, so it can be garbage collected.
+     * The exit hook is unregistered, the pending entry timer is stopped, and all listeners are removed.
+     * Waiting `dequeueAsync` and `dequeueBatch` calls are rejected, and `for await` loops end.
+     * Stored entries are kept, so they can be restored by another queue.
+     * Later calls to the queue functions throw an `InvalidStateError`.
+     */
+    dispose() {
+        if (this.isDisposed) {
+            return;
+        }
+        this.isDisposed = true;
+        for (const unsubscribeExitHook of this.unsubscribeExitHooks.splice(0)) {
+            unsubscribeExitHook();
+        }
+        this.clock.clearTimer(this.pendingTimeout);
+        this.pendingTimeout = undefined;
+        this.pendingEntriesByKey.clear();
+        this.pendingSchedule.clear();
+        this.readyCallbacks.clear();
+        this.clock.clearTimer(this.batchTimeout);
+        this.batchTimeout = undefined;
+        for (const waiter of this.dequeueWaiters.splice(0)) {
+            waiter.reject(createDisposedError());
+        }
+        for (const cancelBatchWaiter of [...this.batchWaiterCancels]) {
+            cancelBatchWaiter(createDisposedError());
+        }
+        this.eventListenerIds.clear();
+        this.removeAllListeners();
+        this.log('Disposed of the queue.');
+    }
+    /**
+     * Dequeues all entries in the queue.
+     * Pending entries are not affected.
+     * @returns The dequeued entries, in queue order.
+     */
+    drain() {
+        this.assertNotDisposed();
+        const entries = [];
+        let queueEntry = this.shiftEntry();
+        while (queueEntry !== undefined) {
+            entries.push(queueEntry.value);
+            queueEntry = this.shiftEntry();
+        }
+        return entries;
     }
     /**
      * Enqueues an entry **after the specified delay**.
-     * If the entry is already pending, the delay is reset.
-     * If the entry is already in the queue, it will not be added again.
+     * If the entry is already pending, the entries are merged and the delay is reset,
+     * unless the queue is in `fixed` timing mode, or the `maxWaitMilliseconds` has been reached.
+     * If the entry is already in the queue, it will not be added again,
+     * unless the `mergeQueued` option is set, in which case it is merged into the queued entry.
+     * If the `maxPending` or `maxSize` limit has been reached, the overflow policy is applied.
      * @param entry - The entry to enqueue.
      * @param entryDelayMilliseconds - Optional delay in milliseconds for this specific entry. If not provided, the default delay is used.
+     * @returns `false` if the entry was dropped because a limit was reached, `true` otherwise.
+     * @throws {RangeError} If the delay is NaN, infinite, or negative.
+     * @throws {DOMException} A `QuotaExceededError`, if a limit was reached and its overflow policy is `reject`.
      */
     enqueue(entry, entryDelayMilliseconds) {
-        this.clearPendingEntry(entry);
+        this.assertNotDisposed();
         const delay = entryDelayMilliseconds ?? this.enqueueDelayMilliseconds;
-        if (delay <= 0) {
-            if (this.queue.includes(entry)) {
-                debug(`Entry already in queue, not enqueuing: ${valueToString(entry)}`);
-                return;
+        assertValidMilliseconds('entryDelayMilliseconds', delay);
+        const entryKey = this.getEntryKey(entry);
+        const now = this.clock.now();
+        const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+        let value = entry;
+        if (pendingEntry !== undefined) {
+            this.log(`Merging with pending entry: ${entryKey}`);
+            value = this.mergeEntries(pendingEntry.value, entry);
+        }
+        if (delay === 0 || (this.mergeQueued && this.queue.has(entryKey))) {
+            if (!this.makeRoomInQueue(entryKey, value, true)) {
+                return false;
             }
-            this.queue.push(entry);
-            this.triggerEvents('enqueue', entry);
-            debug(`Enqueued entry immediately (zero delay): ${valueToString(entry)}`);
-            return;
+            if (pendingEntry !== undefined) {
+                this.deletePendingEntry(entryKey, pendingEntry);
+            }
+            if (this.pushEntry(entryKey, value)) {
+                this.log(`Enqueued entry immediately (zero delay): ${entryKey}`);
+            }
+            return true;
         }
-        const stringEntry = valueToString(entry);
-        const timeout = setTimeout(() => {
-            this.pendingEntries.delete(stringEntry);
-            if (this.queue.includes(entry)) {
-                debug(`Entry already in queue, not enqueuing: ${stringEntry}`);
-                return;
+        if (pendingEntry !== undefined) {
+            pendingEntry.value = value;
+            pendingEntry.lastEnqueuedAt = now;
+            if (this.timingMode === 'fixed') {
+                this.log(`Updated pending entry without resetting delay: ${entryKey}`);
+                this.savePendingToStore(entryKey, pendingEntry);
+                return true;
             }
-            this.queue.push(entry);
-            this.triggerEvents('enqueue', entry);
-            debug(`Enqueued entry: ${stringEntry}`);
-        }, delay);
-        this.pendingEntries.set(stringEntry, { timeout, value: entry });
+        }
+        else if (!this.makeRoomInPending(entryKey, value)) {
+            return false;
+        }
+        const enqueuedAt = pendingEntry?.enqueuedAt ?? now;
+        const pendingDelay = this.maxWaitMilliseconds === undefined
+            ? delay
+            : Math.max(0, Math.min(delay, enqueuedAt + this.maxWaitMilliseconds - now));
+        this.schedulePendingEntry(entryKey, {
+            delay,
+            dueAt: now + pendingDelay,
+            enqueuedAt,
+            lastEnqueuedAt: now,
+            lastResetAt: pendingEntry === undefined ? undefined : now,
+            resetCount: pendingEntry === undefined ? 0 : pendingEntry.resetCount + 1,
+            value
+        });
+        this.triggerEvents(pendingEntry === undefined ? 'pending' : 'pendingReset', value, { delay: pendingDelay, key: entryKey });
+        return true;
     }
     /**
      * Enqueues a list of entries after the specified delay.
@@ -144,6 +609,23 @@ export default class UniqueTimedEntryQueue {
             this.enqueue(entry, entryDelayMilliseconds);
         }
     }
+    /**
+     * Enqueues an entry to be added to the queue at a specific time.
+     * Behaves like `enqueue`, with the delay set to the time remaining until `dueAt`.
+     * Times in the past add the entry to the queue immediately.
+     * @param entry - The entry to enqueue.
+     * @param dueAt - The time the entry is added to the queue.
+     * @returns `false` if the entry was dropped because a limit was reached, `true` otherwise.
+     * @throws {RangeError} If `dueAt` is an invalid date.
+     */
+    enqueueAt(entry, dueAt) {
+        this.assertNotDisposed();
+        const dueTime = dueAt.getTime();
+        if (Number.isNaN(dueTime)) {
+            throw new RangeError('dueAt must be a valid date, received Invalid Date.');
+        }
+        return this.enqueue(entry, Math.max(0, dueTime - this.clock.now()));
+    }
     /**
      * Gets the enqueue delay in milliseconds.
      * @returns The enqueue delay in milliseconds.
@@ -153,28 +635,82 @@ export default class UniqueTimedEntryQueue {
     }
     /**
      * Enqueues all pending entries, bypassing the delay.
+     * When batching, the ready entries are also dispatched, bypassing the batch window.
      */
     enqueuePending() {
-        for (const stringValue of this.pendingEntries.keys()) {
+        this.assertNotDisposed();
+        for (const entryKey of this.pendingEntriesByKey.keys()) {
             // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
-            const pendingEntry = this.pendingEntries.get(stringValue);
-            this.pendingEntries.delete(stringValue);
-            clearTimeout(pendingEntry.timeout);
-            if (this.queue.includes(pendingEntry.value)) {
-                debug(`Entry already in queue, not enqueuing pending entry: ${stringValue}`);
-                continue;
+            const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+            this.deletePendingEntry(entryKey, pendingEntry);
+            if (this.pushEntry(entryKey, pendingEntry.value)) {
+                this.log(`Enqueued pending entry immediately: ${entryKey}`);
             }
-            this.queue.push(pendingEntry.value);
-            this.triggerEvents('enqueue', pendingEntry.value);
-            debug(`Enqueued pending entry immediately: ${stringValue}`);
         }
+        if (this.batchOptions !== undefined) {
+            this.flushBatches('flush');
+        }
+    }
+    /**
+     * Delays a pending entry further, without replacing its value.
+     * Dispatches a `pendingReset` event with the new remaining delay.
+     * @param entry - The pending entry.
+     * @param extraMilliseconds - The time in milliseconds to add to the due time of the entry.
+     * @returns `true` if the entry was pending, `false` otherwise.
+     * @throws {RangeError} If the extra time is NaN, infinite, or negative.
+     */
+    extendPendingEntry(entry, extraMilliseconds) {
+        this.assertNotDisposed();
+        assertValidMilliseconds('extraMilliseconds', extraMilliseconds);
+        const entryKey = this.getEntryKey(entry);
+        const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+        if (pendingEntry === undefined) {
+            return false;
+        }
+        this.log(`Extending pending entry: ${entryKey}`);
+        this.changePendingDueTime(entryKey, pendingEntry, pendingEntry.delay + extraMilliseconds, pendingEntry.dueAt + extraMilliseconds);
+        return true;
+    }
+    /**
+     * Waits for all changes to be written to the store,
+     * including the changes the store writes in the background.
+     */
+    async flushStore() {
+        this.persist(async (store) => {
+            await store.flush?.();
+        });
+        await this.storeOperations;
+    }
+    /**
+     * Gets the details of a pending entry, including its due time and reset count.
+     * @param entry - The entry to look up.
+     * @returns The details of the pending entry, or `undefined` if the entry is not pending.
+     */
+    getPendingInfo(entry) {
+        this.assertNotDisposed();
+        const entryKey = this.getEntryKey(entry);
+        const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+        return pendingEntry === undefined
+            ? undefined
+            : { ...pendingEntry, key: entryKey };
+    }
+    /**
+     * Checks if an entry is in the queue, using its key.
+     * Pending entries are not included.
+     * @param entry - The entry to check.
+     * @returns `true` if an entry with the same key is in the queue, `false` otherwise.
+     */
+    has(entry) {
+        this.assertNotDisposed();
+        return this.queue.has(this.getEntryKey(entry));
     }
     /**
      * Checks if there are pending entries.
      * @returns `true` if there are pending entries, `false` otherwise.
      */
     hasPending() {
-        return this.pendingEntries.size > 0;
+        this.assertNotDisposed();
+        return this.pendingEntriesByKey.size > 0;
     }
     /**
      * Checks if an entry is pending.
@@ -182,66 +718,938 @@ export default class UniqueTimedEntryQueue {
      * @returns `true` if the entry is pending, `false` otherwise.
      */
     hasPendingEntry(entry) {
-        const stringEntry = valueToString(entry);
-        return this.pendingEntries.has(stringEntry);
+        this.assertNotDisposed();
+        return this.pendingEntriesByKey.has(this.getEntryKey(entry));
     }
     /**
      * Checks if the queue is empty.
      * @returns `true` if the queue is empty, `false` otherwise.
      */
     isEmpty() {
-        return this.queue.length === 0;
+        this.assertNotDisposed();
+        return this.queue.size() === 0;
+    }
+    /**
+     * Gets the entry at the front of the queue, without removing it.
+     * @returns The entry that would be dequeued next, or `undefined` if the queue is empty.
+     */
+    peek() {
+        this.assertNotDisposed();
+        return this.queue.peek()?.value;
+    }
+    /**
+     * Lists the details of all pending entries, including their due times and reset counts.
+     * @returns The details of the pending entries, in the order they were first enqueued.
+     */
+    pendingEntries() {
+        this.assertNotDisposed();
+        return [...this.pendingEntriesByKey].map(([entryKey, pendingEntry]) => ({
+            ...pendingEntry,
+            key: entryKey
+        }));
     }
     /**
      * Gets the number of pending entries.
      * @returns The number of entries that are pending to be added to the queue.
      */
     pendingSize() {
-        return this.pendingEntries.size;
+        this.assertNotDisposed();
+        return this.pendingEntriesByKey.size;
+    }
+    pendingToArray(includeMetadata = false) {
+        this.assertNotDisposed();
+        const pendingEntries = [...this.pendingEntriesByKey.values()];
+        if (includeMetadata) {
+            return pendingEntries.map((pendingEntry) => ({
+                dueAt: pendingEntry.dueAt,
+                enqueuedAt: pendingEntry.enqueuedAt,
+                lastEnqueuedAt: pendingEntry.lastEnqueuedAt,
+                value: pendingEntry.value
+            }));
+        }
+        return pendingEntries.map((pendingEntry) => pendingEntry.value);
     }
     /**
-     * Converts the pending entries to an array.
-     * @returns An array containing the pending entries.
+     * Processes entries as they become available in the queue, using an async handler.
+     * While an entry is being handled, other entries with the same key are held in the queue,
+     * so the same key is never handled more than once at a time.
+     * @param handler - The function that handles each entry.
+     * @param options - Processing options.
+     * @param options.concurrency - The maximum number of entries handled at the same time. Default is 1.
+     * @param options.retries - The number of times a failed entry is retried. Default is 0.
+     * @param options.backoff - The retry delay in milliseconds, or a function that returns the delay for an attempt number.
+     * @returns A processor that can be paused, resumed and stopped.
      */
-    pendingToArray() {
-        const pendingValues = [];
-        for (const pendingEntry of this.pendingEntries.values()) {
-            pendingValues.push(pendingEntry.value);
+    process(handler, options = {}) {
+        this.assertNotDisposed();
+        return new QueueProcessor({
+            abandonEntry: (entry, errors) => {
+                this.addDeadLetterEntry(entry, errors);
+            },
+            completeEntry: (entryKey) => {
+                this.inFlightKeys.delete(entryKey);
+                this.notifyReadyCallbacks();
+            },
+            retryEntry: (entry, delay) => this.retryFailedEntry(entry, delay),
+            subscribe: (callback) => {
+                this.readyCallbacks.add(callback);
+                return () => {
+                    this.readyCallbacks.delete(callback);
+                };
+            },
+            takeEntry: () => this.takeProcessableEntry()
+        }, handler, options);
+    }
+    /**
+     * Adds a pending entry to the queue now, without waiting for its delay.
+     * If the entry is already in the queue, it is handled like any other duplicate.
+     * If the queue is full, the queue overflow policy is applied, and an entry that is not added stays pending.
+     * @param entry - The pending entry.
+     * @returns `true` if the entry was pending, `false` otherwise.
+     * @throws {DOMException} A `QuotaExceededError`, if the queue is full and its overflow policy is `reject`.
+     */
+    promotePendingEntry(entry) {
+        this.assertNotDisposed();
+        const entryKey = this.getEntryKey(entry);
+        const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+        if (pendingEntry === undefined) {
+            return false;
         }
-        return pendingValues;
+        if (this.makeRoomInQueue(entryKey, pendingEntry.value, true)) {
+            this.log(`Promoting pending entry: ${entryKey}`);
+            this.movePendingEntryToQueue(entryKey);
+        }
+        return true;
+    }
+    /**
+     * Removes an entry from the queue, without dequeuing it.
+     * Pending entries are not affected. Use `clearPendingEntry` to clear a pending entry.
+     * @param entry - The entry to remove. Entries are matched by key.
+     * @returns `true` if the entry was found and removed, `false` otherwise.
+     */
+    remove(entry) {
+        this.assertNotDisposed();
+        return this.removeQueuedEntry(this.getEntryKey(entry));
     }
     /**
      * Removes an event listener.
      * @param eventType - The event type.
-     * @param listenerId - The unique ID of the listener to remove.
+     * @param listenerIdOrListener - The unique ID of the listener to remove, or the listener function itself.
+     */
+    removeEventListener(eventType, listenerIdOrListener) {
+        if (typeof listenerIdOrListener !== 'string') {
+            let isRegistered = false;
+            for (const [listenerId, registeredListener] of this.eventListenerIds) {
+                if (registeredListener.eventType === eventType &&
+                    registeredListener.listener === listenerIdOrListener) {
+                    isRegistered = true;
+                    this.eventListenerIds.delete(listenerId);
+                    this.off(eventType, registeredListener.registeredListener);
+                }
+            }
+            // The listener may have been added with `on`.
+            if (!isRegistered) {
+                this.off(eventType, listenerIdOrListener);
+            }
+            return;
+        }
+        const registeredListener = this.eventListenerIds.get(listenerIdOrListener);
+        if (registeredListener?.eventType === eventType) {
+            this.eventListenerIds.delete(listenerIdOrListener);
+            this.off(eventType, registeredListener.registeredListener);
+        }
+    }
+    /**
+     * Removes the entries that match a predicate, from both the queue and the pending entries.
+     * @param predicate - Returns `true` for the entries to remove.
+     * @returns The number of queued and pending entries that were removed.
+     */
+    removeWhere(predicate) {
+        this.assertNotDisposed();
+        let removedCount = 0;
+        for (const queueEntry of this.queue.entries()) {
+            if (predicate(queueEntry.value, queueEntry.key) &&
+                this.removeQueuedEntry(queueEntry.key)) {
+                removedCount += 1;
+            }
+        }
+        for (const [entryKey, pendingEntry] of this.pendingEntriesByKey) {
+            if (predicate(pendingEntry.value, entryKey)) {
+                this.cancelPendingEntry(entryKey, pendingEntry, 'removeWhere');
+                removedCount += 1;
+            }
+        }
+        return removedCount;
+    }
+    /**
+     * Changes when a pending entry is added to the queue, without replacing its value.
+     * The new delay starts now, and is not limited by `maxWaitMilliseconds`.
+     * Dispatches a `pendingReset` event with the new delay.
+     * @param entry - The pending entry.
+     * @param delayMilliseconds - The new delay in milliseconds, from now.
+     * @returns `true` if the entry was pending, `false` otherwise.
+     * @throws {RangeError} If the delay is NaN, infinite, or negative.
+     */
+    reschedulePendingEntry(entry, delayMilliseconds) {
+        this.assertNotDisposed();
+        assertValidMilliseconds('delayMilliseconds', delayMilliseconds);
+        const entryKey = this.getEntryKey(entry);
+        const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+        if (pendingEntry === undefined) {
+            return false;
+        }
+        this.log(`Rescheduling pending entry: ${entryKey}`);
+        this.changePendingDueTime(entryKey, pendingEntry, delayMilliseconds, this.clock.now() + delayMilliseconds);
+        return true;
+    }
+    /**
+     * Loads the pending and queued entries from the store.
+     * Pending entries are restored with their remaining delay,
+     * and pending entries whose delay passed while they were stored are added to the queue.
+     * Should be called on startup, before entries are enqueued.
+     * @returns The number of restored pending and queued entries.
      */
-    removeEventListener(eventType, listenerId) {
-        // eslint-disable-next-line security/detect-object-injection
-        const listeners = this.eventListeners[eventType];
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-        if (listeners !== undefined && Object.hasOwn(listeners, listenerId)) {
-            // eslint-disable-next-line security/detect-object-injection, @typescript-eslint/no-dynamic-delete
-            delete listeners[listenerId];
+    async restore() {
+        this.assertNotDisposed();
+        if (this.store === undefined) {
+            return { pending: 0, queue: 0 };
+        }
+        const result = this.loadState(await this.store.load());
+        this.log(`Restored ${result.pending} pending entries and ${result.queue} queued entries.`);
+        return result;
+    }
+    /**
+     * Moves an entry from the dead-letter store back into the queue.
+     * @param entry - The entry to retry.
+     * @param entryDelayMilliseconds - Optional delay in milliseconds before the entry is added to the queue. Default is 0.
+     * @returns `true` if the entry was moved back into the queue,
+     * `false` if it was not found in the dead-letter store, or was dropped because the queue is full.
+     * @throws {DOMException} A `QuotaExceededError`, if the queue is full and the overflow policy is `reject`.
+     * The entry is kept in the dead-letter store.
+     */
+    retryDeadLetter(entry, entryDelayMilliseconds = 0) {
+        this.assertNotDisposed();
+        const entryKey = this.getEntryKey(entry);
+        const deadLetterEntry = this.deadLetterEntries.get(entryKey);
+        if (deadLetterEntry === undefined) {
+            return false;
+        }
+        this.log(`Retrying dead-letter entry: ${entryKey}`);
+        // Removed first, so an entry that fails again straight away is dead-lettered again.
+        this.deadLetterEntries.delete(entryKey);
+        let isEnqueued = false;
+        try {
+            isEnqueued = this.enqueue(deadLetterEntry.value, entryDelayMilliseconds);
+        }
+        finally {
+            if (!isEnqueued) {
+                this.log(`Queue is full, keeping dead-letter entry: ${entryKey}`);
+                this.deadLetterEntries.set(entryKey, deadLetterEntry);
+            }
+        }
+        return isEnqueued;
+    }
+    /**
+     * Shuts down the queue using the shutdown policy, then disposes of it.
+     * - `discard` - Pending entries are cleared.
+     * - `flush` - Pending entries are added to the queue,
+     *   then the queued entries are dequeued and handed to the `shutdownDrain` callback.
+     * - `persist` - Pending entries are kept in the store.
+     * Waits for the `shutdownDrain` callback and the store, up to the `shutdownTimeoutMilliseconds`.
+     * Errors and timeouts are dispatched as `error` events with a `source` of `'shutdown'`.
+     * Useful in a `SIGTERM` handler. Calling it again returns the same promise.
+     */
+    async shutdown() {
+        this.shutdownPromise ??= this.runShutdown();
+        await this.shutdownPromise;
+    }
+    /**
+     * Creates a lossless, serializable copy of the queue,
+     * including the queued entries, the pending entries with their due times, and the configuration.
+     * Functions, like `getKey` and `merge`, are not included.
+     * @returns The snapshot.
+     */
+    snapshot() {
+        this.assertNotDisposed();
+        const config = {
+            enqueueDelayMilliseconds: this.enqueueDelayMilliseconds,
+            mergeQueued: this.mergeQueued,
+            timingMode: this.timingMode
+        };
+        if (this.batchOptions !== undefined) {
+            config.batch = { ...this.batchOptions };
+        }
+        if (this.maxPending !== undefined) {
+            config.maxPending = this.maxPending;
         }
+        if (this.maxSize !== undefined) {
+            config.maxSize = this.maxSize;
+        }
+        if (this.pendingOverflowPolicy !== 'dropNewest') {
+            config.pendingOverflowPolicy = this.pendingOverflowPolicy;
+        }
+        if (this.queueOverflowPolicy !== 'dropNewest') {
+            config.queueOverflowPolicy = this.queueOverflowPolicy;
+        }
+        if (this.maxWaitMilliseconds !== undefined) {
+            config.maxWaitMilliseconds = this.maxWaitMilliseconds;
+        }
+        return {
+            config,
+            pending: [...this.pendingEntriesByKey].map(([entryKey, pendingEntry]) => toStoredPendingEntry(entryKey, pendingEntry)),
+            queue: this.queue.entries(),
+            takenAt: this.clock.now()
+        };
     }
     /**
      * Gets the size of the queue.
      * @returns The number of entries in the queue.
      */
     size() {
-        return this.queue.length;
+        this.assertNotDisposed();
+        return this.queue.size();
     }
     /**
      * Converts the queue to an array.
      * @returns An array containing the entries in the queue.
      */
     toArray() {
-        return [...this.queue];
+        this.assertNotDisposed();
+        return this.queue.entries().map((queueEntry) => queueEntry.value);
+    }
+    /**
+     * Converts the queue to a snapshot when serialized with `JSON.stringify`.
+     * @returns The snapshot.
+     */
+    toJSON() {
+        return this.snapshot();
+    }
+    /**
+     * Iterates over entries as they become available,
+     * dequeuing each one using `dequeueAsync`.
+     * The iteration ends when the queue is disposed.
+     * @yields The dequeued entries.
+     */
+    async *[Symbol.asyncIterator]() {
+        while (!this.isDisposed) {
+            let entry;
+            try {
+                entry = await this.dequeueAsync();
+            }
+            catch (error) {
+                if (this.isDisposed) {
+                    return;
+                }
+                throw error;
+            }
+            yield entry;
+        }
+    }
+    /**
+     * Disposes of the queue, then waits for all changes to be written to the store.
+     * Called at the end of an `await using` block.
+     */
+    async [Symbol.asyncDispose]() {
+        this.dispose();
+        await this.flushStore();
+    }
+    /**
+     * Disposes of the queue.
+     * Called at the end of a `using` block.
+     */
+    [Symbol.dispose]() {
+        this.dispose();
+    }
+    afterDequeue(entryKey, entry) {
+        this.removeFromStore(entryKey, 'queue');
+        this.triggerEvents('dequeue', entry, { key: entryKey });
+        if (this.queue.size() === 0) {
+            this.triggerEvents('drain', {
+                pendingCount: this.pendingEntriesByKey.size
+            });
+        }
+    }
+    addDeadLetterEntry(entry, errors) {
+        const entryKey = this.getEntryKey(entry);
+        const existingEntry = this.deadLetterEntries.get(entryKey);
+        const value = existingEntry === undefined
+            ? entry
+            : this.mergeEntries(existingEntry.value, entry);
+        this.deadLetterEntries.set(entryKey, {
+            deadLetteredAt: this.clock.now(),
+            errors: [...(existingEntry?.errors ?? []), ...errors],
+            value
+        });
+        this.log(`Moved entry to dead-letter store: ${entryKey}`);
+        this.triggerEvents('deadLetter', value, {
+            errors: [...errors],
+            key: entryKey
+        });
+    }
+    /**
+     * Arms the batch timer, so the ready entries are dispatched
+     * once the batch window has passed since the first entry was ready.
+     */
+    armBatchTimeout() {
+        if (this.queue.size() === 0) {
+            this.clock.clearTimer(this.batchTimeout);
+            this.batchTimeout = undefined;
+            return;
+        }
+        if (this.batchTimeout !== undefined) {
+            return;
+        }
+        const { maxWaitMilliseconds } = this.batchOptions;
+        this.batchTimeout = this.clock.setTimer(() => {
+            this.batchTimeout = undefined;
+            this.flushBatches('window');
+        }, Math.max(0, this.firstReadyAt + maxWaitMilliseconds - this.clock.now()));
+    }
+    /**
+     * Arms the pending timer for the pending entry that is due first.
+     * A timer that is already armed for an earlier time is kept,
+     * and re-armed when it fires, so removing or delaying pending entries does not restart it.
+     */
+    armPendingTimeout() {
+        if (this.isPromotingPendingEntries) {
+            return;
+        }
+        const scheduledKey = this.pendingSchedule.peek();
+        if (scheduledKey === undefined) {
+            this.clock.clearTimer(this.pendingTimeout);
+            this.pendingTimeout = undefined;
+            return;
+        }
+        if (this.pendingTimeout !== undefined &&
+            this.pendingTimeoutDueAt <= scheduledKey.dueAt) {
+            return;
+        }
+        this.clock.clearTimer(this.pendingTimeout);
+        this.pendingTimeoutDueAt = scheduledKey.dueAt;
+        this.pendingTimeout = this.clock.setTimer(() => {
+            this.promoteDuePendingEntries();
+        }, Math.min(maxTimerDelayMilliseconds, Math.max(0, scheduledKey.dueAt - this.clock.now())));
+    }
+    assertNotDisposed() {
+        if (this.isDisposed) {
+            throw createDisposedError();
+        }
+    }
+    /**
+     * Handles the pending entries using the shutdown policy.
+     * Runs synchronously, so it can also be used when the process exits.
+     */
+    beginShutdown() {
+        if (this.isShuttingDown || this.isDisposed) {
+            return;
+        }
+        this.isShuttingDown = true;
+        switch (this.shutdownPolicy) {
+            case 'discard': {
+                this.clearPending();
+                break;
+            }
+            case 'flush': {
+                this.enqueuePending();
+                break;
+            }
+            case 'persist': {
+                // Keep the stored pending entries, so they can be restored on startup.
+                this.clock.clearTimer(this.pendingTimeout);
+                this.pendingTimeout = undefined;
+                break;
+            }
+        }
+    }
+    cancelPendingEntry(entryKey, pendingEntry, reason) {
+        this.deletePendingEntry(entryKey, pendingEntry);
+        this.triggerEvents('pendingCancel', pendingEntry.value, {
+            key: entryKey,
+            reason
+        });
+    }
+    /**
+     * Moves the due time of a pending entry, keeping its value,
+     * and dispatches a `pendingReset` event with the remaining delay.
+     * @param entryKey - The key of the pending entry.
+     * @param pendingEntry - The pending entry.
+     * @param delay - The new requested delay.
+     * @param dueAt - The new due time.
+     */
+    changePendingDueTime(entryKey, pendingEntry, delay, dueAt) {
+        this.schedulePendingEntry(entryKey, { ...pendingEntry, delay, dueAt });
+        this.triggerEvents('pendingReset', pendingEntry.value, {
+            delay: Math.max(0, dueAt - this.clock.now()),
+            key: entryKey
+        });
+    }
+    deletePendingEntry(entryKey, pendingEntry) {
+        this.pendingEntriesByKey.delete(entryKey);
+        this.pendingSchedule.delete(entryKey);
+        this.armPendingTimeout();
+        this.removeFromStore(entryKey, 'pending');
+    }
+    /**
+     * Dispatches full batches of ready entries as `batch` events,
+     * then arms the batch timer for the entries that remain.
+     */
+    dispatchBatches() {
+        const { maxSize } = this.batchOptions;
+        while (this.queue.size() >= maxSize) {
+            this.triggerEvents('batch', this.takeBatch(maxSize), { reason: 'size' });
+        }
+        this.armBatchTimeout();
+    }
+    /**
+     * Hands the queued entries to the `shutdownDrain` callback, when using the `flush` policy,
+     * then waits for all changes to be written to the store.
+     */
+    async finishShutdown() {
+        if (this.shutdownPolicy === 'flush' && this.shutdownDrain !== undefined) {
+            const entries = this.drain();
+            this.log(`Draining ${entries.length} entries on shutdown.`);
+            await this.shutdownDrain(entries);
+        }
+        await this.flushStore();
+    }
+    /**
+     * Dispatches all ready entries as `batch` events, without waiting for full batches.
+     * @param reason - Why the batches were dispatched early.
+     */
+    flushBatches(reason) {
+        const { maxSize } = this.batchOptions;
+        this.clock.clearTimer(this.batchTimeout);
+        this.batchTimeout = undefined;
+        while (this.queue.size() > 0) {
+            this.triggerEvents('batch', this.takeBatch(maxSize), { reason });
+        }
+    }
+    handleListenerError(error, eventType) {
+        this.log(`Error in "${eventType}" event listener.`, error);
+        if (eventType === 'error') {
+            return;
+        }
+        if (this.onListenerError !== undefined) {
+            try {
+                this.onListenerError(error, eventType);
+            }
+            catch (handlerError) {
+                this.log('Error in onListenerError handler.', handlerError);
+            }
+        }
+        this.triggerEvents('error', error, { eventType, source: 'listener' });
+    }
+    /**
+     * Adds stored entries to the queue.
+     * Pending entries are scheduled with their remaining delay,
+     * and pending entries that are past due are added to the queue.
+     * @param state - The stored entries.
+     * @returns The number of pending and queued entries that were added.
+     */
+    loadState(state) {
+        const result = { pending: 0, queue: 0 };
+        for (const queueEntry of state.queue) {
+            if (this.pushEntry(queueEntry.key, queueEntry.value, queueEntry.priority)) {
+                result.queue += 1;
+            }
+        }
+        const now = this.clock.now();
+        for (const pendingEntry of state.pending) {
+            if (this.pendingEntriesByKey.has(pendingEntry.key)) {
+                continue;
+            }
+            if (pendingEntry.dueAt <= now) {
+                this.removeFromStore(pendingEntry.key, 'pending');
+                if (this.pushEntry(pendingEntry.key, pendingEntry.value)) {
+                    this.log(`Enqueued past due entry: ${pendingEntry.key}`);
+                    result.queue += 1;
+                }
+            }
+            else {
+                this.schedulePendingEntry(pendingEntry.key, {
+                    delay: pendingEntry.delay,
+                    dueAt: pendingEntry.dueAt,
+                    enqueuedAt: pendingEntry.enqueuedAt,
+                    lastEnqueuedAt: pendingEntry.lastEnqueuedAt,
+                    lastResetAt: pendingEntry.lastResetAt,
+                    resetCount: pendingEntry.resetCount ?? 0,
+                    value: pendingEntry.value
+                });
+                result.pending += 1;
+            }
+        }
+        return result;
+    }
+    /**
+     * Applies the pending overflow policy when the pending entries are full.
+     * @param entryKey - The key of the new pending entry.
+     * @param entry - The new pending entry.
+     * @returns `true` if there is room for the entry, `false` if it was dropped.
+     * @throws {DOMException} A `QuotaExceededError`, if the policy is `reject`.
+     */
+    makeRoomInPending(entryKey, entry) {
+        if (this.maxPending === undefined ||
+            this.pendingEntriesByKey.size < this.maxPending) {
+            return true;
+        }
+        const details = {
+            key: entryKey,
+            limit: this.maxPending,
+            policy: this.pendingOverflowPolicy,
+            target: 'pending'
+        };
+        switch (this.pendingOverflowPolicy) {
+            case 'dropNewest': {
+                this.log(`Pending entries are full, dropping entry: ${entryKey}`);
+                this.triggerEvents('overflow', entry, details);
+                return false;
+            }
+            case 'dropOldest':
+            case 'promoteOldest': {
+                // Map iteration follows insertion order, so the first key was enqueued first.
+                const [oldestKey, oldestEntry] = this.pendingEntriesByKey
+                    .entries()
+                    .next().value;
+                if (this.pendingOverflowPolicy === 'dropOldest') {
+                    this.log(`Pending entries are full, dropping entry: ${oldestKey}`);
+                    this.cancelPendingEntry(oldestKey, oldestEntry, 'overflow');
+                }
+                else {
+                    this.log(`Pending entries are full, promoting entry: ${oldestKey}`);
+                    this.movePendingEntryToQueue(oldestKey);
+                }
+                this.triggerEvents('overflow', entry, {
+                    ...details,
+                    evictedKey: oldestKey
+                });
+                return true;
+            }
+            case 'reject': {
+                this.log(`Pending entries are full, rejecting entry: ${entryKey}`);
+                this.triggerEvents('overflow', entry, details);
+                throw createOverflowError('pending', this.maxPending);
+            }
+        }
+    }
+    /**
+     * Applies the queue overflow policy when the queue is full,
+     * unless the entry is already queued.
+     * @param entryKey - The key of the entry being added to the queue.
+     * @param entry - The entry being added to the queue.
+     * @param canReject - When `true`, the `reject` policy throws, rather than dropping the entry.
+     * @returns `true` if there is room for the entry, `false` if it was dropped.
+     * @throws {DOMException} A `QuotaExceededError`, if the policy is `reject` and `canReject` is `true`.
+     */
+    makeRoomInQueue(entryKey, entry, canReject) {
+        if (this.maxSize === undefined ||
+            this.queue.size() < this.maxSize ||
+            this.queue.has(entryKey)) {
+            return true;
+        }
+        const details = {
+            key: entryKey,
+            limit: this.maxSize,
+            policy: this.queueOverflowPolicy,
+            target: 'queue'
+        };
+        if (this.queueOverflowPolicy === 'dropOldest') {
+            const oldestEntry = this.queue.shiftLowestPriority();
+            this.log(`Queue is full, dropping entry: ${oldestEntry.key}`);
+            this.removeFromStore(oldestEntry.key, 'queue');
+            this.triggerEvents('overflow', entry, {
+                ...details,
+                evictedKey: oldestEntry.key
+            });
+            return true;
+        }
+        this.log(`Queue is full, dropping entry: ${entryKey}`);
+        this.triggerEvents('overflow', entry, details);
+        if (this.queueOverflowPolicy === 'reject' && canReject) {
+            throw createOverflowError('queue', this.maxSize);
+        }
+        return false;
+    }
+    /**
+     * Moves a pending entry to the queue, once its delay has passed or when it is promoted early.
+     * @param entryKey - The key of the pending entry.
+     */
+    movePendingEntryToQueue(entryKey) {
+        const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+        if (pendingEntry === undefined) {
+            return;
+        }
+        this.deletePendingEntry(entryKey, pendingEntry);
+        if (this.pushEntry(entryKey, pendingEntry.value)) {
+            this.log(`Enqueued entry: ${entryKey}`);
+        }
+    }
+    notifyReadyCallbacks() {
+        for (const callback of this.readyCallbacks) {
+            callback();
+        }
+    }
+    /**
+     * Runs a store operation after all previous store operations have completed.
+     * Store errors are dispatched as `error` events.
+     * @param operation - The store operation.
+     */
+    persist(operation) {
+        const store = this.store;
+        if (store === undefined) {
+            return;
+        }
+        this.storeOperations = this.storeOperations
+            .then(async () => {
+            await operation(store);
+        })
+            .catch((error) => {
+            this.log('Error in queue store.', error);
+            this.triggerEvents('error', error, { source: 'store' });
+        });
+    }
+    /**
+     * Moves the pending entries whose delay has passed to the queue,
+     * then re-arms the pending timer for the next pending entry.
+     */
+    promoteDuePendingEntries() {
+        this.pendingTimeout = undefined;
+        this.isPromotingPendingEntries = true;
+        try {
+            const now = this.clock.now();
+            let scheduledKey = this.pendingSchedule.peek();
+            while (scheduledKey !== undefined && scheduledKey.dueAt <= now) {
+                this.movePendingEntryToQueue(scheduledKey.key);
+                scheduledKey = this.pendingSchedule.peek();
+            }
+        }
+        finally {
+            this.isPromotingPendingEntries = false;
+        }
+        this.armPendingTimeout();
+    }
+    /**
+     * Adds an entry to the end of its priority in the queue, unless an entry with the same key is already queued.
+     * A queued entry with the same key is moved up if the new priority is higher.
+     * @param entryKey - The key of the entry.
+     * @param entry - The entry to add.
+     * @param priority - The priority of the entry. Defaults to the result of the `getPriority` option.
+     * @returns `true` if the entry was added, `false` if it was a duplicate or the queue is full.
+     */
+    pushEntry(entryKey, entry, priority = this.getEntryPriority(entry)) {
+        if (!this.makeRoomInQueue(entryKey, entry, false)) {
+            return false;
+        }
+        const queueEntry = priority === 0
+            ? { key: entryKey, value: entry }
+            : { key: entryKey, priority, value: entry };
+        if (!this.queue.push(queueEntry)) {
+            const raisedEntry = this.queue.raisePriority(entryKey, priority);
+            if (raisedEntry !== undefined) {
+                this.log(`Raised the priority of queued entry: ${entryKey}`);
+            }
+            const mergedEntry = this.mergeQueued
+                ? this.queue.update(entryKey, (queuedValue) => this.mergeEntries(queuedValue, entry))
+                : undefined;
+            if (mergedEntry === undefined) {
+                this.log(`Entry already in queue, not enqueuing: ${entryKey}`);
+            }
+            else {
+                this.log(`Merging with queued entry: ${entryKey}`);
+            }
+            const updatedEntry = mergedEntry ?? raisedEntry;
+            if (updatedEntry !== undefined) {
+                this.saveQueueToStore(updatedEntry);
+            }
+            this.triggerEvents('duplicate', entry, {
+                key: entryKey,
+                reason: this.mergeQueued ? 'merged' : 'discarded'
+            });
+            return false;
+        }
+        if (this.queue.size() === 1) {
+            this.firstReadyAt = this.clock.now();
+        }
+        this.saveQueueToStore(queueEntry);
+        this.triggerEvents('enqueue', entry, { key: entryKey });
+        this.resolveDequeueWaiters();
+        this.notifyReadyCallbacks();
+        return true;
+    }
+    removeFromStore(entryKey, collection) {
+        if (collection === 'queue' && this.hasSharedQueue) {
+            return;
+        }
+        this.persist(async (store) => {
+            await store.remove(entryKey, collection);
+        });
+    }
+    /**
+     * Removes an entry from the queue, without dequeuing it.
+     * @param entryKey - The key of the entry.
+     * @returns `true` if the entry was removed, `false` if it was not queued.
+     */
+    removeQueuedEntry(entryKey) {
+        const queueEntry = this.queue.delete(entryKey);
+        if (queueEntry === undefined) {
+            return false;
+        }
+        this.log(`Removed queued entry: ${entryKey}`);
+        this.removeFromStore(entryKey, 'queue');
+        this.triggerEvents('remove', queueEntry.value, { key: entryKey });
+        return true;
+    }
+    /**
+     * Hands queued entries to waiting `dequeueAsync` calls, in order.
+     */
+    resolveDequeueWaiters() {
+        while (this.dequeueWaiters.length > 0) {
+            const queueEntry = this.shiftEntry();
+            if (queueEntry === undefined) {
+                return;
+            }
+            const waiter = this.dequeueWaiters.shift();
+            waiter.resolve(queueEntry.value);
+        }
+    }
+    /**
+     * Removes up to a number of entries from the front of the queue,
+     * and restarts the batch window for the entries that remain.
+     * @param maxSize - The maximum number of entries to remove.
+     * @returns The removed entries, in queue order.
+     */
+    /**
+     * Re-enqueues an entry that failed while it was being processed.
+     * When a newer entry with the same key is pending or queued,
+     * the failed entry is merged into it as the existing value, so the newer update is kept.
+     * @param entry - The failed entry.
+     * @param delay - The retry delay in milliseconds, or `undefined` for the default delay.
+     * @returns Whether the entry was re-enqueued, merged into a newer entry, or dropped.
+     */
+    retryFailedEntry(entry, delay) {
+        if (this.isDisposed) {
+            return 'dropped';
+        }
+        const entryKey = this.getEntryKey(entry);
+        const pendingEntry = this.pendingEntriesByKey.get(entryKey);
+        if (pendingEntry !== undefined) {
+            this.log(`Merging failed entry into newer pending entry: ${entryKey}`);
+            pendingEntry.value = this.mergeEntries(entry, pendingEntry.value);
+            this.savePendingToStore(entryKey, pendingEntry);
+            return 'merged';
+        }
+        if (this.queue.has(entryKey)) {
+            const mergedEntry = this.mergeQueued
+                ? this.queue.update(entryKey, (queuedValue) => this.mergeEntries(entry, queuedValue))
+                : undefined;
+            if (mergedEntry !== undefined) {
+                this.log(`Merging failed entry into newer queued entry: ${entryKey}`);
+                this.saveQueueToStore(mergedEntry);
+            }
+            return 'merged';
+        }
+        return this.enqueue(entry, delay) ? 'retried' : 'dropped';
+    }
+    takeBatch(maxSize) {
+        const entries = [];
+        while (entries.length < maxSize) {
+            const queueEntry = this.shiftEntry();
+            if (queueEntry === undefined) {
+                break;
+            }
+            entries.push(queueEntry.value);
+        }
+        this.firstReadyAt = this.clock.now();
+        return entries;
+    }
+    /**
+     * Removes the first entry from the queue whose key is not already in flight,
+     * and marks its key as in flight.
+     * @returns The entry and its key, or `undefined` if there is no entry to process.
+     */
+    takeProcessableEntry() {
+        if (this.isDisposed) {
+            return undefined;
+        }
+        const queueEntry = this.queue.shift(this.inFlightKeys);
+        if (queueEntry !== undefined) {
+            this.inFlightKeys.add(queueEntry.key);
+            this.afterDequeue(queueEntry.key, queueEntry.value);
+        }
+        return queueEntry;
     }
-    triggerEvents(eventType, entry) {
-        // eslint-disable-next-line security/detect-object-injection
-        for (const listener of Object.values(this.eventListeners[eventType])) {
-            listener(entry);
+    async runShutdown() {
+        if (this.isDisposed) {
+            return;
+        }
+        this.beginShutdown();
+        let timeout;
+        try {
+            // eslint-disable-next-line promise/avoid-new
+            const timeoutPromise = new Promise((_resolve, reject) => {
+                timeout = this.clock.setTimer(() => {
+                    reject(new DOMException(`The queue did not shut down within ${this.shutdownTimeoutMilliseconds} milliseconds.`, 'TimeoutError'));
+                }, this.shutdownTimeoutMilliseconds);
+            });
+            await Promise.race([this.finishShutdown(), timeoutPromise]);
+        }
+        catch (error) {
+            this.log('Error shutting down the queue.', error);
+            this.triggerEvents('error', error, { source: 'shutdown' });
+        }
+        finally {
+            this.clock.clearTimer(timeout);
+            this.dispose();
+        }
+    }
+    savePendingToStore(entryKey, pendingEntry) {
+        this.persist(async (store) => {
+            await store.savePending(toStoredPendingEntry(entryKey, pendingEntry));
+        });
+    }
+    saveQueueToStore(queueEntry) {
+        if (this.hasSharedQueue) {
+            return;
+        }
+        this.persist(async (store) => {
+            await store.saveQueue(queueEntry);
+        });
+    }
+    /**
+     * Schedules a pending entry, replacing any existing pending entry with the same key.
+     * @param entryKey - The key of the entry.
+     * @param pendingEntry - The pending entry.
+     */
+    schedulePendingEntry(entryKey, pendingEntry) {
+        this.pendingEntriesByKey.set(entryKey, pendingEntry);
+        this.pendingSchedule.set(entryKey, pendingEntry.dueAt);
+        this.armPendingTimeout();
+        this.savePendingToStore(entryKey, pendingEntry);
+    }
+    /**
+     * Removes the entry at the front of the queue.
+     * @returns The removed entry and its key, or undefined if the queue is empty.
+     */
+    shiftEntry() {
+        const queueEntry = this.queue.shift();
+        if (queueEntry !== undefined) {
+            this.afterDequeue(queueEntry.key, queueEntry.value);
+        }
+        return queueEntry;
+    }
+    triggerEvents(eventType, ...eventArguments) {
+        const listeners = this.rawListeners(eventType);
+        for (const listener of listeners) {
+            try {
+                const result = listener.apply(this, eventArguments);
+                if (result instanceof Promise) {
+                    result.catch((error) => {
+                        this.handleListenerError(error, eventType);
+                    });
+                }
+            }
+            catch (error) {
+                this.handleListenerError(error, eventType);
+            }
         }
     }
 }
@@ -1,328 +1,2695 @@
+import { EventEmitter } from 'node:events'
+
 import Debug from 'debug'
-import exitHook from 'exit-hook'
+import exitHook, { asyncExitHook } from 'exit-hook'
 
+import { type Clock, systemClock } from './clock.js'
 import { DEBUG_NAMESPACE } from './debug.config.js'
-import { generateUniqueListenerId, valueToString } from './utilities.js'
+import type {
+  BatchEventDetails,
+  EventArguments,
+  EventListener,
+  EventType,
+  ListenerErrorHandler,
+  OverflowEventDetails,
+  PendingCancelEventDetails
+} from './events.js'
+import { type MergeFunction, mergeStrategies } from './mergeStrategies.js'
+import {
+  type ProcessHandler,
+  type ProcessOptions,
+  QueueProcessor,
+  type RetryResult
+} from './queueProcessor.js'
+import { PendingSchedule } from './pendingSchedule.js'
+import { MemoryReadyEntries } from './readyEntries.js'
+import type {
+  QueueStore,
+  ReadyEntries,
+  StoredCollection,
+  StoredPendingEntry,
+  StoredQueueEntry,
+  StoredQueueState
+} from './stores/types.js'
+import {
+  assertValidMilliseconds,
+  assertValidSize,
+  generateUniqueListenerId,
+  valueToString
+} from './utilities.js'
+
+const debug = Debug(`${DEBUG_NAMESPACE}:index`)
+
+/**
+ * The extra time given to the exit hook, after the shutdown timeout,
+ * before the process is forced to exit.
+ */
+const exitHookWaitMarginMilliseconds = 1000
+
+/**
+ * The longest delay `setTimeout()` supports.
+ * Longer delays fire immediately, so the pending timer is re-armed in steps instead.
+ */
+const maxTimerDelayMilliseconds = 2_147_483_647
+
+function createDisposedError(): DOMException {
+  return new DOMException('The queue has been disposed.', 'InvalidStateError')
+}
+
+function createOverflowError(
+  target: OverflowEventDetails['target'],
+  limit: number
+): DOMException {
+  return new DOMException(
+    target === 'queue'
+      ? `The queue is full (maxSize: ${limit}).`
+      : `The pending entries are full (maxPending: ${limit}).`,
+    'QuotaExceededError'
+  )
+}
+
+/**
+ * Converts a pending entry to its stored form,
+ * leaving out the reset details of entries that have not been reset.
+ * @param entryKey - The key of the entry.
+ * @param pendingEntry - The pending entry.
+ * @returns The stored pending entry.
+ */
+function toStoredPendingEntry<T>(
+  entryKey: string,
+  pendingEntry: PendingEntry<T>
+): StoredPendingEntry<T> {
+  const storedEntry: StoredPendingEntry<T> = {
+    delay: pendingEntry.delay,
+    dueAt: pendingEntry.dueAt,
+    enqueuedAt: pendingEntry.enqueuedAt,
+    key: entryKey,
+    lastEnqueuedAt: pendingEntry.lastEnqueuedAt,
+    value: pendingEntry.value
+  }
+
+  if (pendingEntry.resetCount > 0) {
+    storedEntry.lastResetAt = pendingEntry.lastResetAt
+    storedEntry.resetCount = pendingEntry.resetCount
+  }
+
+  return storedEntry
+}
+
+export { type Clock, ManualClock } from './clock.js'
+export { type MergeFunction, mergeStrategies } from './mergeStrategies.js'
+export { JsonFileQueueStore } from './stores/jsonFileQueueStore.js'
+export type {
+  QueueStore,
+  ReadyEntries,
+  StoredCollection,
+  StoredPendingEntry,
+  StoredQueueEntry,
+  StoredQueueState
+} from './stores/types.js'
+export type {
+  ProcessHandler,
+  ProcessOptions,
+  ProcessStopOptions,
+  QueueProcessor,
+  RetryResult
+} from './queueProcessor.js'
+
+export {
+  type BatchEventDetails,
+  type ClearEventDetails,
+  type DeadLetterEventDetails,
+  type DrainEventDetails,
+  type DuplicateEventDetails,
+  type EntryEventDetails,
+  type ErrorEventDetails,
+  type EventArguments,
+  type EventListener,
+  type EventType,
+  eventTypes,
+  type ListenerErrorHandler,
+  type OverflowEventDetails,
+  type PendingCancelEventDetails,
+  type PendingEventDetails
+} from './events.js'
+
+/**
+ * How the delay of a pending entry is handled when the entry is enqueued again.
+ * - `debounce` - The delay is reset on every enqueue.
+ * - `fixed` - The delay starts on the first enqueue, and is not reset.
+ */
+export type TimingMode = 'debounce' | 'fixed'
+
+export interface PendingEntryMetadata<T> {
+  /**
+   * The time the entry is due to be added to the queue, in milliseconds since the epoch.
+   */
+  dueAt: number
+
+  /**
+   * The time the entry was first enqueued, in milliseconds since the epoch.
+   */
+  enqueuedAt: number
+
+  /**
+   * The time the entry was most recently enqueued, in milliseconds since the epoch.
+   */
+  lastEnqueuedAt: number
+
+  value: T
+}
+
+/**
+ * The listener type accepted by the `EventEmitter` functions,
+ * which cannot narrow the arguments of a generic event type.
+ */
+type EmitterListener<T> = Parameters<EventEmitter<EventArguments<T>>['on']>[1]
+
+export interface PendingEntryInfo<T> extends PendingEntryMetadata<T> {
+  /**
+   * The delay in milliseconds that was requested for the entry.
+   */
+  delay: number
+
+  /**
+   * The key of the entry.
+   */
+  key: string
+
+  /**
+   * The time the delay was last reset, in milliseconds since the epoch,
+   * or `undefined` if it has not been reset.
+   */
+  lastResetAt?: number
+
+  /**
+   * The number of times the delay was reset, by enqueuing the entry again.
+   */
+  resetCount: number
+}
+
+type PendingEntry<T> = Omit<PendingEntryInfo<T>, 'key'>
+
+export interface DeadLetterEntry<T> {
+  /**
+   * The time the entry was moved to the dead-letter store, in milliseconds since the epoch.
+   */
+  deadLetteredAt: number
+
+  /**
+   * The errors from each failed processing attempt, oldest first.
+   */
+  errors: unknown[]
+
+  value: T
+}
+
+export interface DequeueAsyncOptions {
+  /**
+   * A signal that cancels the wait when aborted.
+   */
+  signal?: AbortSignal
+
+  /**
+   * The maximum time in milliseconds to wait for an entry.
+   */
+  timeoutMs?: number
+}
+
+export interface DequeueBatchOptions {
+  /**
+   * The maximum number of entries in the batch.
+   * The batch is resolved as soon as this many entries are ready.
+   */
+  maxSize: number
+
+  /**
+   * The maximum time in milliseconds to wait after the first entry is ready,
+   * before resolving with a smaller batch.
+   */
+  maxWaitMs: number
+
+  /**
+   * A signal that cancels the wait when aborted.
+   */
+  signal?: AbortSignal
+}
+
+interface DequeueWaiter<T> {
+  reject: (reason: unknown) => void
+  resolve: (entry: T) => void
+}
+
+export interface AddEventListenerOptions {
+  /**
+   * When `true`, the listener is removed after it is called once.
+   */
+  once?: boolean
+
+  /**
+   * A signal that removes the listener when aborted.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Groups ready entries into `batch` events.
+ */
+export interface BatchOptions {
+  /**
+   * The number of ready entries that are dispatched together as soon as they are ready.
+   */
+  maxSize: number
+
+  /**
+   * The time in milliseconds after the first entry is ready,
+   * before the ready entries are dispatched in smaller batches.
+   */
+  maxWaitMilliseconds: number
+}
+
+/**
+ * What happens when an entry is added to the queue once it has reached its `maxSize`.
+ * - `dropNewest` - The new entry is dropped.
+ * - `dropOldest` - The oldest entry with the lowest priority is dropped to make room,
+ *   so higher priority entries are kept.
+ *   For pending entries, the oldest pending entry is dropped.
+ * - `reject` - `enqueue` throws a `QuotaExceededError`.
+ *   Entries that finish waiting while the queue is full are dropped.
+ */
+export type OverflowPolicy = 'dropNewest' | 'dropOldest' | 'reject'
+
+/**
+ * What happens when an entry is enqueued once the pending entries have reached their `maxPending`.
+ * Includes the `OverflowPolicy` options, applied to the pending entries, and:
+ * - `promoteOldest` - The oldest pending entry is added to the queue early to make room.
+ */
+export type PendingOverflowPolicy = OverflowPolicy | 'promoteOldest'
+
+const overflowPolicies: readonly string[] = [
+  'dropNewest',
+  'dropOldest',
+  'reject'
+] satisfies OverflowPolicy[]
+
+/**
+ * What happens to pending entries when the queue is shut down.
+ * - `discard` - Pending entries are cleared.
+ * - `flush` - Pending entries are added to the queue,
+ *   and the queue is handed to the `shutdownDrain` callback.
+ * - `persist` - Pending entries are kept in the store, so they can be restored on startup.
+ */
+export type ShutdownPolicy = 'discard' | 'flush' | 'persist'
+
+/**
+ * Receives the queued entries when the queue is shut down with the `flush` policy.
+ */
+export type ShutdownDrain<T> = (entries: T[]) => Promise<void> | void
+
+/**
+ * Receives the debug messages of a queue.
+ * Compatible with `debug` loggers and `console.log`.
+ */
+export type QueueLogger = (message: string, ...details: unknown[]) => void
+
+export interface UniqueTimedEntryQueueOptions<T> {
+  /**
+   * When set, entries are taken from the queue in groups, and dispatched as `batch` events,
+   * when `maxSize` entries are ready, or `maxWaitMilliseconds` after the first entry is ready.
+   * Defaults to no batching.
+   */
+  batch?: BatchOptions
+
+  /**
+   * Provides the current time and timers.
+   * Defaults to the system clock. Use a `ManualClock` to control time in tests.
+   */
+  clock?: Clock
+
+  /**
+   * The delay in milliseconds before an entry is added to the queue.
+   * Ignored when the delay is passed to the constructor as a number.
+   * Defaults to 60000 (1 minute).
+   */
+  enqueueDelayMilliseconds?: number
+
+  /**
+   * Returns the string key used to determine the uniqueness of an entry.
+   * Defaults to `valueToString`, which works best for numbers and strings.
+   */
+  getKey?: (entry: T) => string
+
+  /**
+   * Returns the priority of an entry when it is added to the queue.
+   * Entries with higher priorities are dequeued first,
+   * and entries with the same priority are dequeued in the order they were added.
+   * When an entry that is already queued is enqueued again with a higher priority, it is moved up.
+   * Defaults to 0 for every entry.
+   */
+  getPriority?: (entry: T) => number
+
+  /**
+   * Receives the debug messages of the queue.
+   * Defaults to a `debug` logger, in the `unique-timed-entry-queue:index` namespace.
+   */
+  logger?: QueueLogger
+
+  /**
+   * The maximum number of pending entries.
+   * New entries that would exceed the limit are handled by the `pendingOverflowPolicy`.
+   * Defaults to no maximum.
+   */
+  maxPending?: number
+
+  /**
+   * The maximum number of entries in the queue.
+   * New entries that would exceed the limit are handled by the `queueOverflowPolicy`.
+   * Defaults to no maximum.
+   */
+  maxSize?: number
+
+  /**
+   * Combines an entry that is already pending with an incoming entry that has the same key.
+   * Defaults to `mergeStrategies.keepLatest`.
+   */
+  merge?: MergeFunction<T>
+
+  /**
+   * When `true`, incoming entries are also merged into entries already in the queue,
+   * rather than being discarded as duplicates.
+   * Defaults to `false`.
+   */
+  mergeQueued?: boolean
+
+  /**
+   * The maximum time in milliseconds an entry can remain pending
+   * when its delay keeps getting reset in `debounce` mode.
+   * Defaults to no maximum.
+   */
+  maxWaitMilliseconds?: number
+
+  /**
+   * Called when an event listener throws an error, or returns a rejected promise.
+   * Listener errors are also dispatched as `error` events.
+   */
+  onListenerError?: ListenerErrorHandler
+
+  /**
+   * A name for the queue, added to the namespace of the default logger
+   * to tell the messages of several queues apart.
+   */
+  name?: string
+
+  /**
+   * What happens when an entry is enqueued once the pending entries have reached `maxPending`.
+   * Defaults to `dropNewest`.
+   */
+  pendingOverflowPolicy?: PendingOverflowPolicy
+
+  /**
+   * What happens when an entry is added to the queue once it has reached `maxSize`.
+   * Defaults to `dropNewest`.
+   */
+  queueOverflowPolicy?: OverflowPolicy
+
+  /**
+   * When `true`, the queue handles its pending entries when the process exits.
+   * Defaults to `true`.
+   */
+  registerExitHook?: boolean
+
+  /**
+   * Receives the queued entries when the queue is shut down with the `flush` policy.
+   * Without it, the entries are left in the queue.
+   */
+  shutdownDrain?: ShutdownDrain<T>
+
+  /**
+   * What happens to pending entries when the queue is shut down, or the process exits.
+   * When set to `flush` or `persist`, the queue is shut down asynchronously
+   * when the process exits because of a signal, or `gracefulExit()` from `exit-hook`.
+   * Defaults to `persist` when a `store` is set, and `discard` otherwise.
+   */
+  shutdownPolicy?: ShutdownPolicy
+
+  /**
+   * The maximum time in milliseconds to wait for the `shutdownDrain` callback and the store.
+   * Defaults to 10000 (10 seconds).
+   */
+  shutdownTimeoutMilliseconds?: number
+
+  /**
+   * A storage adapter that keeps pending and queued entries across restarts.
+   * Call `restore()` on startup to load the stored entries.
+   */
+  store?: QueueStore<T>
+
+  /**
+   * How the delay of a pending entry is handled when the entry is enqueued again.
+   * Defaults to `debounce`.
+   */
+  timingMode?: TimingMode
+}
+
+/**
+ * The serializable configuration of a queue, included in snapshots.
+ */
+export interface QueueSnapshotConfig {
+  batch?: BatchOptions
+  enqueueDelayMilliseconds: number
+  maxPending?: number
+  maxSize?: number
+  maxWaitMilliseconds?: number
+  mergeQueued: boolean
+  pendingOverflowPolicy?: PendingOverflowPolicy
+  queueOverflowPolicy?: OverflowPolicy
+  timingMode: TimingMode
+}
+
+/**
+ * A lossless, serializable copy of the state of a queue.
+ */
+export interface QueueSnapshot<T> extends StoredQueueState<T> {
+  config: QueueSnapshotConfig
+
+  /**
+   * The time the snapshot was taken, in milliseconds since the epoch.
+   */
+  takenAt: number
+}
+
+export interface RestoreResult {
+  /**
+   * The number of pending entries restored with their remaining delay.
+   */
+  pending: number
+
+  /**
+   * The number of entries restored to the queue,
+   * including pending entries whose delay passed while they were stored.
+   */
+  queue: number
+}
+
+/**
+ * A queue that enqueues unique entries after a specified delay.
+ * Events can be listened to using `addEventListener`,
+ * or any of the standard `EventEmitter` functions.
+ */
+export default class UniqueTimedEntryQueue<
+  T = number | string
+> extends EventEmitter<EventArguments<T>> {
+  private readonly batchOptions: BatchOptions | undefined
+
+  private batchTimeout: unknown
+
+  private readonly batchWaiterCancels: Set<(reason: unknown) => void>
+
+  private readonly clock: Clock
+
+  private readonly deadLetterEntries: Map<string, DeadLetterEntry<T>>
+
+  private readonly dequeueWaiters: Array<DequeueWaiter<T>>
+
+  private readonly enqueueDelayMilliseconds: number
+
+  private readonly eventListenerIds: Map<
+    string,
+    {
+      eventType: EventType
+      listener: EmitterListener<T>
+      registeredListener: EmitterListener<T>
+    }
+  >
+
+  /**
+   * The time the first entry in the queue was added, or the time the last batch was taken.
+   */
+  private firstReadyAt = 0
+
+  private readonly getEntryKey: (entry: T) => string
+
+  private readonly getEntryPriority: (entry: T) => number
+
+  private readonly hasSharedQueue: boolean
+
+  private readonly inFlightKeys: Set<string>
+
+  private isDisposed = false
+
+  private isPromotingPendingEntries = false
+
+  private isShuttingDown = false
+
+  private readonly log: QueueLogger
+
+  private readonly maxPending: number | undefined
+
+  private readonly maxSize: number | undefined
+
+  private readonly maxWaitMilliseconds: number | undefined
+
+  private readonly mergeEntries: MergeFunction<T>
+
+  private readonly mergeQueued: boolean
+
+  private readonly onListenerError: ListenerErrorHandler | undefined
+
+  private readonly pendingEntriesByKey: Map<string, PendingEntry<T>>
+
+  private readonly pendingOverflowPolicy: PendingOverflowPolicy
+
+  private readonly pendingSchedule: PendingSchedule
+
+  private pendingTimeout: unknown
+
+  private pendingTimeoutDueAt = 0
+
+  private readonly queue: ReadyEntries<T>
+
+  private readonly queueOverflowPolicy: OverflowPolicy
+
+  /**
+   * Called when entries are added to the queue, or released by a processor.
+   */
+  private readonly readyCallbacks: Set<() => void>
+
+  private readonly shutdownDrain: ShutdownDrain<T> | undefined
+
+  private readonly shutdownPolicy: ShutdownPolicy
+
+  private shutdownPromise: Promise<void> | undefined
+
+  private readonly shutdownTimeoutMilliseconds: number
+
+  private readonly store: QueueStore<T> | undefined
+
+  private storeOperations: Promise<void> = Promise.resolve()
+
+  private readonly timingMode: TimingMode
+
+  private readonly unsubscribeExitHooks: Array<() => void> = []
+
+  /**
+   * Creates a new UniqueTimedEntryQueue.
+   * @param options - The queue options, including the `enqueueDelayMilliseconds`.
+   */
+  constructor(options?: UniqueTimedEntryQueueOptions<T>)
+
+  /**
+   * Creates a new UniqueTimedEntryQueue.
+   * @param enqueueDelayMilliseconds - The delay in milliseconds before an entry is added to the queue. Default is 60000 (1 minute).
+   * @param options - Additional queue options.
+   */
+  constructor(
+    enqueueDelayMilliseconds?: number,
+    options?: UniqueTimedEntryQueueOptions<T>
+  )
+
+  /**
+   * Creates a new UniqueTimedEntryQueue.
+   * @param enqueueDelayOrOptions - The delay in milliseconds before an entry is added to the queue, or the queue options.
+   * @param queueOptions - Additional queue options, when the delay is passed as a number.
+   * @throws {RangeError} If a delay or size option is NaN, infinite, or negative.
+   * @throws {TypeError} If an overflow policy is unknown,
+   * or the `persist` shutdown policy is used without a store.
+   */
+  constructor(
+    enqueueDelayOrOptions?: number | UniqueTimedEntryQueueOptions<T>,
+    queueOptions: UniqueTimedEntryQueueOptions<T> = {}
+  ) {
+    super()
+
+    // An undefined delay is the numeric form, so the default delay is used with `queueOptions`.
+    const options =
+      typeof enqueueDelayOrOptions === 'object'
+        ? enqueueDelayOrOptions
+        : {
+            ...queueOptions,
+            enqueueDelayMilliseconds:
+              enqueueDelayOrOptions ?? queueOptions.enqueueDelayMilliseconds
+          }
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    this.enqueueDelayMilliseconds = options.enqueueDelayMilliseconds ?? 60_000
+
+    assertValidMilliseconds(
+      'enqueueDelayMilliseconds',
+      this.enqueueDelayMilliseconds
+    )
+
+    if (options.maxWaitMilliseconds !== undefined) {
+      assertValidMilliseconds(
+        'maxWaitMilliseconds',
+        options.maxWaitMilliseconds
+      )
+    }
+
+    if (options.maxPending !== undefined) {
+      assertValidSize('maxPending', options.maxPending)
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+    this.shutdownTimeoutMilliseconds =
+      options.shutdownTimeoutMilliseconds ?? 10_000
+
+    assertValidMilliseconds(
+      'shutdownTimeoutMilliseconds',
+      this.shutdownTimeoutMilliseconds
+    )
+
+    if (options.maxSize !== undefined) {
+      assertValidSize('maxSize', options.maxSize)
+    }
+
+    if (options.batch !== undefined) {
+      assertValidSize('batch.maxSize', options.batch.maxSize)
+      assertValidMilliseconds(
+        'batch.maxWaitMilliseconds',
+        options.batch.maxWaitMilliseconds
+      )
+    }
+
+    this.log =
+      options.logger ??
+      (options.name === undefined ? debug : debug.extend(options.name))
+
+    this.getEntryKey = options.getKey ?? valueToString
+    this.getEntryPriority = options.getPriority ?? (() => 0)
+    this.mergeEntries = options.merge ?? mergeStrategies.keepLatest
+    this.mergeQueued = options.mergeQueued ?? false
+    this.timingMode = options.timingMode ?? 'debounce'
+    this.maxWaitMilliseconds = options.maxWaitMilliseconds
+    this.maxPending = options.maxPending
+    this.maxSize = options.maxSize
+    this.pendingOverflowPolicy = options.pendingOverflowPolicy ?? 'dropNewest'
+    this.queueOverflowPolicy = options.queueOverflowPolicy ?? 'dropNewest'
+    this.onListenerError = options.onListenerError
+    this.store = options.store
+    this.clock = options.clock ?? systemClock
+
+    this.shutdownPolicy =
+      options.shutdownPolicy ??
+      (this.store === undefined ? 'discard' : 'persist')
+    this.shutdownDrain = options.shutdownDrain
+
+    if (
+      this.pendingOverflowPolicy !== 'promoteOldest' &&
+      !overflowPolicies.includes(this.pendingOverflowPolicy)
+    ) {
+      throw new TypeError(
+        `Unknown pending overflow policy: ${this.pendingOverflowPolicy}`
+      )
+    }
+
+    if (!overflowPolicies.includes(this.queueOverflowPolicy)) {
+      throw new TypeError(
+        `Unknown queue overflow policy: ${this.queueOverflowPolicy}`
+      )
+    }
+
+    if (this.shutdownPolicy === 'persist' && this.store === undefined) {
+      throw new TypeError('The "persist" shutdown policy requires a store.')
+    }
+
+    if (this.enqueueDelayMilliseconds === 0) {
+      this.log(
+        'Warning: enqueueDelayMilliseconds is set to 0, entries will be added immediately and uniqueness will not be enforced.'
+      )
+    }
+
+    this.eventListenerIds = new Map()
+
+    this.pendingEntriesByKey = new Map()
+    this.pendingSchedule = new PendingSchedule()
+
+    const sharedQueue = this.store?.createReadyEntries?.()
+
+    this.queue = sharedQueue ?? new MemoryReadyEntries()
+    this.hasSharedQueue = sharedQueue !== undefined
+
+    this.dequeueWaiters = []
+
+    this.deadLetterEntries = new Map()
+
+    this.inFlightKeys = new Set()
+    this.readyCallbacks = new Set()
+
+    this.batchOptions = options.batch
+    this.batchWaiterCancels = new Set()
+
+    if (this.batchOptions !== undefined) {
+      this.readyCallbacks.add(() => {
+        this.dispatchBatches()
+      })
+    }
+
+    if (options.registerExitHook ?? true) {
+      this.unsubscribeExitHooks.push(
+        exitHook(() => {
+          this.log(
+            `Process exiting, handling ${this.pendingEntriesByKey.size} pending entries with the "${this.shutdownPolicy}" policy.`
+          )
+
+          this.beginShutdown()
+        })
+      )
+
+      if (
+        this.shutdownPolicy === 'flush' ||
+        this.shutdownPolicy === 'persist'
+      ) {
+        this.unsubscribeExitHooks.push(
+          asyncExitHook(
+            async () => {
+              await this.shutdown()
+            },
+            {
+              wait:
+                this.shutdownTimeoutMilliseconds +
+                exitHookWaitMarginMilliseconds
+            }
+          )
+        )
+      }
+    }
+  }
+
+  /**
+   * Creates a new queue from a snapshot, with the pending entries rescheduled.
+   * Pending entries that are past due are added to the queue.
+   * @param snapshot - The snapshot, created by `snapshot()`.
+   * @param options - Additional queue options, such as `getKey` and `merge`, that cannot be included in a snapshot.
+   * @returns The new queue.
+   */
+  public static fromSnapshot<T>(
+    snapshot: QueueSnapshot<T>,
+    options: UniqueTimedEntryQueueOptions<T> = {}
+  ): UniqueTimedEntryQueue<T> {
+    const queue = new UniqueTimedEntryQueue<T>({
+      ...snapshot.config,
+      ...options
+    })
+
+    queue.loadState(snapshot)
+
+    return queue
+  }
+
+  /**
+   * Adds an event listener for the specified event type.
+   * @param eventType - The event type to listen for.
+   * @param listener - The listener function to call when the event occurs.
+   * @param options - Listener options.
+   * @param options.once - When `true`, the listener is removed after it is called once.
+   * @param options.signal - A signal that removes the listener when aborted.
+   * @returns A unique ID for the listener.
+   */
+  public addEventListener<E extends EventType>(
+    eventType: E,
+    listener: EventListener<T, E>,
+    options: AddEventListenerOptions = {}
+  ): string {
+    this.assertNotDisposed()
+
+    const listenerId = generateUniqueListenerId()
+
+    if (options.signal?.aborted ?? false) {
+      return listenerId
+    }
+
+    const emitterListener = listener as EmitterListener<T>
+
+    let registeredListener = emitterListener
+
+    if (options.once ?? false) {
+      const onceListener: EventListener<T, E> = (...eventArguments) => {
+        this.removeEventListener(eventType, listenerId)
+        return listener.apply(this, eventArguments)
+      }
+
+      // Links the wrapper to the listener, like `EventEmitter.once`,
+      // so `off` and `removeListener` can remove it with the original function.
+      registeredListener = Object.assign(onceListener as EmitterListener<T>, {
+        listener: emitterListener
+      })
+    }
+
+    this.eventListenerIds.set(listenerId, {
+      eventType,
+      listener: emitterListener,
+      registeredListener
+    })
+
+    this.on(eventType, registeredListener)
+
+    options.signal?.addEventListener(
+      'abort',
+      () => {
+        this.removeEventListener(eventType, listenerId)
+      },
+      { once: true }
+    )
+
+    return listenerId
+  }
+
+  /**
+   * Clears all entries from the queue.
+   * @returns The number of entries that were cleared.
+   */
+  public clear(): number {
+    this.assertNotDisposed()
+
+    for (const queueEntry of this.queue.entries()) {
+      this.removeFromStore(queueEntry.key, 'queue')
+    }
+
+    const clearedCount = this.queue.clear()
+
+    this.triggerEvents('clear', { count: clearedCount, target: 'queue' })
+
+    return clearedCount
+  }
+
+  /**
+   * Clears all entries from the queue, all pending entries, and all dead-letter entries.
+   * This is the same as calling `clearPending`, `clear` and `clearDeadLetter`.
+   * @returns The total number of entries that were cleared.
+   */
+  public clearAll(): number {
+    const clearedPending = this.clearPending()
+    const clearedQueue = this.clear()
+    const clearedDeadLetter = this.clearDeadLetter()
+
+    return clearedPending + clearedQueue + clearedDeadLetter
+  }
+
+  /**
+   * Clears all entries from the dead-letter store.
+   * @returns The number of dead-letter entries that were cleared.
+   */
+  public clearDeadLetter(): number {
+    this.assertNotDisposed()
+
+    const deadLetterCount = this.deadLetterEntries.size
+    this.deadLetterEntries.clear()
+
+    this.triggerEvents('clear', {
+      count: deadLetterCount,
+      target: 'deadLetter'
+    })
+
+    return deadLetterCount
+  }
+
+  /**
+   * Clears all pending entries.
+   * This does not affect entries already in the queue.
+   * This is useful for stopping all pending enqueues, and should be called before destroying the queue.
+   * @returns The number of pending entries that were cleared.
+   */
+  public clearPending(): number {
+    this.assertNotDisposed()
+
+    const pendingCount = this.pendingEntriesByKey.size
+
+    for (const [entryKey, pendingEntry] of this.pendingEntriesByKey) {
+      this.cancelPendingEntry(entryKey, pendingEntry, 'clearPending')
+    }
+
+    this.triggerEvents('clear', { count: pendingCount, target: 'pending' })
+
+    return pendingCount
+  }
+
+  /**
+   * Clears a specific pending entry.
+   * @param entry - The entry to clear from pending.
+   * @returns True if the entry was found and cleared, false otherwise.
+   */
+  public clearPendingEntry(entry: T): boolean {
+    this.assertNotDisposed()
+
+    const entryKey = this.getEntryKey(entry)
+
+    const pendingEntry = this.pendingEntriesByKey.get(entryKey)
+
+    if (pendingEntry !== undefined) {
+      this.log(`Clearing pending entry: ${entryKey}`)
+      this.cancelPendingEntry(entryKey, pendingEntry, 'clearPendingEntry')
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * Converts the dead-letter store to an array.
+   * @returns An array containing the entries that exhausted their processing retries, with their errors.
+   */
+  public deadLetterToArray(): Array<DeadLetterEntry<T>> {
+    this.assertNotDisposed()
+
+    return [...this.deadLetterEntries.values()].map((deadLetterEntry) => ({
+      ...deadLetterEntry,
+      errors: [...deadLetterEntry.errors]
+    }))
+  }
+
+  /**
+   * Dequeues an entry from the front of the queue.
+   * @returns The dequeued entry, or undefined if the queue is empty.
+   */
+  public dequeue(): T | undefined {
+    this.assertNotDisposed()
+
+    return this.shiftEntry()?.value
+  }
+
+  /**
+   * Dequeues an entry from the front of the queue,
+   * waiting for an entry to become available if the queue is empty.
+   * Multiple waiting calls receive different entries, in the order they were made.
+   * @param options - Options for the wait.
+   * @param options.signal - A signal that cancels the wait when aborted.
+   * @param options.timeoutMs - The maximum time in milliseconds to wait for an entry.
+   * @returns A promise that resolves with the dequeued entry.
+   * @throws {RangeError} If `timeoutMs` is NaN, infinite, or negative.
+   */
+  public async dequeueAsync(options: DequeueAsyncOptions = {}): Promise<T> {
+    this.assertNotDisposed()
+
+    const { signal, timeoutMs } = options
+
+    if (timeoutMs !== undefined) {
+      assertValidMilliseconds('timeoutMs', timeoutMs)
+    }
+
+    signal?.throwIfAborted()
+
+    const queueEntry = this.shiftEntry()
+
+    if (queueEntry !== undefined) {
+      return queueEntry.value
+    }
+
+    // eslint-disable-next-line promise/avoid-new
+    return await new Promise<T>((resolve, reject) => {
+      let timeout: unknown
+
+      const listenerController = new AbortController()
+
+      const waiter: DequeueWaiter<T> = {
+        reject: (reason) => {
+          this.clock.clearTimer(timeout)
+          listenerController.abort()
+          reject(reason)
+        },
+        resolve: (entry) => {
+          this.clock.clearTimer(timeout)
+          listenerController.abort()
+          resolve(entry)
+        }
+      }
+
+      const cancel = (reason: unknown): void => {
+        const waiterIndex = this.dequeueWaiters.indexOf(waiter)
+
+        if (waiterIndex !== -1) {
+          this.dequeueWaiters.splice(waiterIndex, 1)
+        }
+
+        waiter.reject(reason)
+      }
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          cancel(signal.reason)
+        },
+        { once: true, signal: listenerController.signal }
+      )
+
+      if (timeoutMs !== undefined) {
+        const timeoutAt = this.clock.now() + timeoutMs
+
+        // Long waits are split into timers within the limit of `setTimeout`.
+        const armTimeout = (): void => {
+          const remainingMilliseconds = timeoutAt - this.clock.now()
+
+          if (remainingMilliseconds > 0) {
+            timeout = this.clock.setTimer(
+              armTimeout,
+              Math.min(maxTimerDelayMilliseconds, remainingMilliseconds)
+            )
+            return
+          }
+
+          cancel(
+            new DOMException(
+              `No entry was dequeued within ${timeoutMs} milliseconds.`,
+              'TimeoutError'
+            )
+          )
+        }
+
+        timeout = this.clock.setTimer(
+          armTimeout,
+          Math.min(maxTimerDelayMilliseconds, timeoutMs)
+        )
+      }
+
+      this.dequeueWaiters.push(waiter)
+    })
+  }
+
+  /**
+   * Dequeues a group of entries,
+   * waiting until `maxSize` entries are ready, or `maxWaitMs` after the first entry is ready.
+   * @param options - Options for the batch.
+   * @param options.maxSize - The maximum number of entries in the batch.
+   * @param options.maxWaitMs - The maximum time in milliseconds to wait after the first entry is ready.
+   * @param options.signal - A signal that cancels the wait when aborted.
+   * @returns A promise that resolves with the dequeued entries, in queue order.
+   * @throws {RangeError} If `maxSize` is not a positive integer, or `maxWaitMs` is NaN, infinite, or negative.
+   */
+  public async dequeueBatch(options: DequeueBatchOptions): Promise<T[]> {
+    this.assertNotDisposed()
+
+    const { maxSize, maxWaitMs, signal } = options
+
+    assertValidSize('maxSize', maxSize)
+    assertValidMilliseconds('maxWaitMs', maxWaitMs)
+
+    signal?.throwIfAborted()
+
+    // eslint-disable-next-line promise/avoid-new
+    return await new Promise<T[]>((resolve, reject) => {
+      let timeout: unknown
+
+      const listenerController = new AbortController()
+
+      const waiter = {
+        check: (): void => {
+          if (this.queue.size() >= maxSize) {
+            waiter.resolve()
+          } else if (timeout === undefined && this.queue.size() > 0) {
+            timeout = this.clock.setTimer(
+              () => {
+                timeout = undefined
+
+                if (this.queue.size() > 0) {
+                  waiter.resolve()
+                }
+              },
+              Math.max(0, this.firstReadyAt + maxWaitMs - this.clock.now())
+            )
+          }
+        },
+        reject: (reason: unknown): void => {
+          waiter.stop()
+          reject(reason)
+        },
+        resolve: (): void => {
+          waiter.stop()
+          resolve(this.takeBatch(maxSize))
+        },
+        stop: (): void => {
+          this.clock.clearTimer(timeout)
+          this.readyCallbacks.delete(waiter.check)
+          this.batchWaiterCancels.delete(waiter.reject)
+          listenerController.abort()
+        }
+      }
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          waiter.reject(signal.reason)
+        },
+        { once: true, signal: listenerController.signal }
+      )
+
+      this.readyCallbacks.add(waiter.check)
+      this.batchWaiterCancels.add(waiter.reject)
+
+      waiter.check()
+    })
+  }
+
+  /**
+   * Dequeues up to a number of entries from the front of the queue.
+   * @param count - The maximum number of entries to dequeue.
+   * @returns The dequeued entries, in queue order. Fewer entries are returned if the queue runs out.
+   * @throws {RangeError} If the count is not a positive integer.
+   */
+  public dequeueMany(count: number): T[] {
+    this.assertNotDisposed()
+
+    assertValidSize('count', count)
+
+    return this.takeBatch(count)
+  }
+
+  /**
+   * Disposes of the queue, so it can be garbage collected.
+   * The exit hook is unregistered, the pending entry timer is stopped, and all listeners are removed.
+   * Waiting `dequeueAsync` and `dequeueBatch` calls are rejected, and `for await` loops end.
+   * Stored entries are kept, so they can be restored by another queue.
+   * Later calls to the queue functions throw an `InvalidStateError`.
+   */
+  public dispose(): void {
+    if (this.isDisposed) {
+      return
+    }
+
+    this.isDisposed = true
+
+    for (const unsubscribeExitHook of this.unsubscribeExitHooks.splice(0)) {
+      unsubscribeExitHook()
+    }
+
+    this.clock.clearTimer(this.pendingTimeout)
+    this.pendingTimeout = undefined
+
+    this.pendingEntriesByKey.clear()
+    this.pendingSchedule.clear()
+
+    this.readyCallbacks.clear()
+
+    this.clock.clearTimer(this.batchTimeout)
+    this.batchTimeout = undefined
+
+    for (const waiter of this.dequeueWaiters.splice(0)) {
+      waiter.reject(createDisposedError())
+    }
+
+    for (const cancelBatchWaiter of [...this.batchWaiterCancels]) {
+      cancelBatchWaiter(createDisposedError())
+    }
+
+    this.eventListenerIds.clear()
+    this.removeAllListeners()
+
+    this.log('Disposed of the queue.')
+  }
+
+  /**
+   * Dequeues all entries in the queue.
+   * Pending entries are not affected.
+   * @returns The dequeued entries, in queue order.
+   */
+  public drain(): T[] {
+    this.assertNotDisposed()
+
+    const entries: T[] = []
+
+    let queueEntry = this.shiftEntry()
+
+    while (queueEntry !== undefined) {
+      entries.push(queueEntry.value)
+      queueEntry = this.shiftEntry()
+    }
+
+    return entries
+  }
+
+  /**
+   * Enqueues an entry **after the specified delay**.
+   * If the entry is already pending, the entries are merged and the delay is reset,
+   * unless the queue is in `fixed` timing mode, or the `maxWaitMilliseconds` has been reached.
+   * If the entry is already in the queue, it will not be added again,
+   * unless the `mergeQueued` option is set, in which case it is merged into the queued entry.
+   * If the `maxPending` or `maxSize` limit has been reached, the overflow policy is applied.
+   * @param entry - The entry to enqueue.
+   * @param entryDelayMilliseconds - Optional delay in milliseconds for this specific entry. If not provided, the default delay is used.
+   * @returns `false` if the entry was dropped because a limit was reached, `true` otherwise.
+   * @throws {RangeError} If the delay is NaN, infinite, or negative.
+   * @throws {DOMException} A `QuotaExceededError`, if a limit was reached and its overflow policy is `reject`.
+   */
+  public enqueue(entry: T, entryDelayMilliseconds?: number): boolean {
+    this.assertNotDisposed()
+
+    const delay = entryDelayMilliseconds ?? this.enqueueDelayMilliseconds
+
+    assertValidMilliseconds('entryDelayMilliseconds', delay)
+
+    const entryKey = this.getEntryKey(entry)
+
+    const now = this.clock.now()
+
+    const pendingEntry = this.pendingEntriesByKey.get(entryKey)
+
+    let value = entry
+
+    if (pendingEntry !== undefined) {
+      this.log(`Merging with pending entry: ${entryKey}`)
+      value = this.mergeEntries(pendingEntry.value, entry)
+    }
+
+    if (delay === 0 || (this.mergeQueued && this.queue.has(entryKey))) {
+      if (!this.makeRoomInQueue(entryKey, value, true)) {
+        return false
+      }
+
+      if (pendingEntry !== undefined) {
+        this.deletePendingEntry(entryKey, pendingEntry)
+      }
+
+      if (this.pushEntry(entryKey, value)) {
+        this.log(`Enqueued entry immediately (zero delay): ${entryKey}`)
+      }
+      return true
+    }
+
+    if (pendingEntry !== undefined) {
+      pendingEntry.value = value
+      pendingEntry.lastEnqueuedAt = now
+
+      if (this.timingMode === 'fixed') {
+        this.log(`Updated pending entry without resetting delay: ${entryKey}`)
+        this.savePendingToStore(entryKey, pendingEntry)
+        return true
+      }
+    } else if (!this.makeRoomInPending(entryKey, value)) {
+      return false
+    }
+
+    const enqueuedAt = pendingEntry?.enqueuedAt ?? now
+
+    const pendingDelay =
+      this.maxWaitMilliseconds === undefined
+        ? delay
+        : Math.max(
+            0,
+            Math.min(delay, enqueuedAt + this.maxWaitMilliseconds - now)
+          )
+
+    this.schedulePendingEntry(entryKey, {
+      delay,
+      dueAt: now + pendingDelay,
+      enqueuedAt,
+      lastEnqueuedAt: now,
+      lastResetAt: pendingEntry === undefined ? undefined : now,
+      resetCount: pendingEntry === undefined ? 0 : pendingEntry.resetCount + 1,
+      value
+    })
+
+    this.triggerEvents(
+      pendingEntry === undefined ? 'pending' : 'pendingReset',
+      value,
+      { delay: pendingDelay, key: entryKey }
+    )
+
+    return true
+  }
+
+  /**
+   * Enqueues a list of entries after the specified delay.
+   * If an entry is already pending, the delay is reset.
+   * If an entry is already in the queue, it will not be added again.
+   * @param entries - The entries to enqueue.
+   * @param entryDelayMilliseconds - Optional delay in milliseconds for these specific entries. If not provided, the default delay is used.
+   */
+  public enqueueAll(entries: T[], entryDelayMilliseconds?: number): void {
+    for (const entry of entries) {
+      this.enqueue(entry, entryDelayMilliseconds)
+    }
+  }
+
+  /**
+   * Enqueues an entry to be added to the queue at a specific time.
+   * Behaves like `enqueue`, with the delay set to the time remaining until `dueAt`.
+   * Times in the past add the entry to the queue immediately.
+   * @param entry - The entry to enqueue.
+   * @param dueAt - The time the entry is added to the queue.
+   * @returns `false` if the entry was dropped because a limit was reached, `true` otherwise.
+   * @throws {RangeError} If `dueAt` is an invalid date.
+   */
+  public enqueueAt(entry: T, dueAt: Date): boolean {
+    this.assertNotDisposed()
+
+    const dueTime = dueAt.getTime()
+
+    if (Number.isNaN(dueTime)) {
+      throw new RangeError('dueAt must be a valid date, received Invalid Date.')
+    }
+
+    return this.enqueue(entry, Math.max(0, dueTime - this.clock.now()))
+  }
+
+  /**
+   * Gets the enqueue delay in milliseconds.
+   * @returns The enqueue delay in milliseconds.
+   */
+  public enqueueDelay(): number {
+    return this.enqueueDelayMilliseconds
+  }
+
+  /**
+   * Enqueues all pending entries, bypassing the delay.
+   * When batching, the ready entries are also dispatched, bypassing the batch window.
+   */
+  public enqueuePending(): void {
+    this.assertNotDisposed()
+
+    for (const entryKey of this.pendingEntriesByKey.keys()) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const pendingEntry = this.pendingEntriesByKey.get(
+        entryKey
+      ) as PendingEntry<T>
+
+      this.deletePendingEntry(entryKey, pendingEntry)
+
+      if (this.pushEntry(entryKey, pendingEntry.value)) {
+        this.log(`Enqueued pending entry immediately: ${entryKey}`)
+      }
+    }
+
+    if (this.batchOptions !== undefined) {
+      this.flushBatches('flush')
+    }
+  }
+
+  /**
+   * Delays a pending entry further, without replacing its value.
+   * Dispatches a `pendingReset` event with the new remaining delay.
+   * @param entry - The pending entry.
+   * @param extraMilliseconds - The time in milliseconds to add to the due time of the entry.
+   * @returns `true` if the entry was pending, `false` otherwise.
+   * @throws {RangeError} If the extra time is NaN, infinite, or negative.
+   */
+  public extendPendingEntry(entry: T, extraMilliseconds: number): boolean {
+    this.assertNotDisposed()
+
+    assertValidMilliseconds('extraMilliseconds', extraMilliseconds)
+
+    const entryKey = this.getEntryKey(entry)
+
+    const pendingEntry = this.pendingEntriesByKey.get(entryKey)
+
+    if (pendingEntry === undefined) {
+      return false
+    }
+
+    this.log(`Extending pending entry: ${entryKey}`)
+
+    this.changePendingDueTime(
+      entryKey,
+      pendingEntry,
+      pendingEntry.delay + extraMilliseconds,
+      pendingEntry.dueAt + extraMilliseconds
+    )
+
+    return true
+  }
+
+  /**
+   * Waits for all changes to be written to the store,
+   * including the changes the store writes in the background.
+   */
+  public async flushStore(): Promise<void> {
+    this.persist(async (store) => {
+      await store.flush?.()
+    })
+
+    await this.storeOperations
+  }
+
+  /**
+   * Gets the details of a pending entry, including its due time and reset count.
+   * @param entry - The entry to look up.
+   * @returns The details of the pending entry, or `undefined` if the entry is not pending.
+   */
+  public getPendingInfo(entry: T): PendingEntryInfo<T> | undefined {
+    this.assertNotDisposed()
+
+    const entryKey = this.getEntryKey(entry)
+
+    const pendingEntry = this.pendingEntriesByKey.get(entryKey)
+
+    return pendingEntry === undefined
+      ? undefined
+      : { ...pendingEntry, key: entryKey }
+  }
+
+  /**
+   * Checks if an entry is in the queue, using its key.
+   * Pending entries are not included.
+   * @param entry - The entry to check.
+   * @returns `true` if an entry with the same key is in the queue, `false` otherwise.
+   */
+  public has(entry: T): boolean {
+    this.assertNotDisposed()
+
+    return this.queue.has(this.getEntryKey(entry))
+  }
+
+  /**
+   * Checks if there are pending entries.
+   * @returns `true` if there are pending entries, `false` otherwise.
+   */
+  public hasPending(): boolean {
+    this.assertNotDisposed()
+
+    return this.pendingEntriesByKey.size > 0
+  }
+
+  /**
+   * Checks if an entry is pending.
+   * @param entry - The entry to check.
+   * @returns `true` if the entry is pending, `false` otherwise.
+   */
+  public hasPendingEntry(entry: T): boolean {
+    this.assertNotDisposed()
+
+    return this.pendingEntriesByKey.has(this.getEntryKey(entry))
+  }
+
+  /**
+   * Checks if the queue is empty.
+   * @returns `true` if the queue is empty, `false` otherwise.
+   */
+  public isEmpty(): boolean {
+    this.assertNotDisposed()
+
+    return this.queue.size() === 0
+  }
+
+  /**
+   * Gets the entry at the front of the queue, without removing it.
+   * @returns The entry that would be dequeued next, or `undefined` if the queue is empty.
+   */
+  public peek(): T | undefined {
+    this.assertNotDisposed()
+
+    return this.queue.peek()?.value
+  }
+
+  /**
+   * Lists the details of all pending entries, including their due times and reset counts.
+   * @returns The details of the pending entries, in the order they were first enqueued.
+   */
+  public pendingEntries(): Array<PendingEntryInfo<T>> {
+    this.assertNotDisposed()
+
+    return [...this.pendingEntriesByKey].map(([entryKey, pendingEntry]) => ({
+      ...pendingEntry,
+      key: entryKey
+    }))
+  }
+
+  /**
+   * Gets the number of pending entries.
+   * @returns The number of entries that are pending to be added to the queue.
+   */
+  public pendingSize(): number {
+    this.assertNotDisposed()
+
+    return this.pendingEntriesByKey.size
+  }
+
+  /**
+   * Converts the pending entries to an array.
+   * @param includeMetadata - When `true`, each pending entry is returned with its due time,
+   * and the times it was first and last enqueued.
+   * @returns An array containing the pending entries.
+   */
+  public pendingToArray(): T[]
+  public pendingToArray(includeMetadata: true): Array<PendingEntryMetadata<T>>
+  public pendingToArray(
+    includeMetadata = false
+  ): Array<PendingEntryMetadata<T>> | T[] {
+    this.assertNotDisposed()
+
+    const pendingEntries = [...this.pendingEntriesByKey.values()]
+
+    if (includeMetadata) {
+      return pendingEntries.map((pendingEntry) => ({
+        dueAt: pendingEntry.dueAt,
+        enqueuedAt: pendingEntry.enqueuedAt,
+        lastEnqueuedAt: pendingEntry.lastEnqueuedAt,
+        value: pendingEntry.value
+      }))
+    }
+
+    return pendingEntries.map((pendingEntry) => pendingEntry.value)
+  }
+
+  /**
+   * Processes entries as they become available in the queue, using an async handler.
+   * While an entry is being handled, other entries with the same key are held in the queue,
+   * so the same key is never handled more than once at a time.
+   * @param handler - The function that handles each entry.
+   * @param options - Processing options.
+   * @param options.concurrency - The maximum number of entries handled at the same time. Default is 1.
+   * @param options.retries - The number of times a failed entry is retried. Default is 0.
+   * @param options.backoff - The retry delay in milliseconds, or a function that returns the delay for an attempt number.
+   * @returns A processor that can be paused, resumed and stopped.
+   */
+  public process(
+    handler: ProcessHandler<T>,
+    options: ProcessOptions = {}
+  ): QueueProcessor<T> {
+    this.assertNotDisposed()
+
+    return new QueueProcessor<T>(
+      {
+        abandonEntry: (entry, errors) => {
+          this.addDeadLetterEntry(entry, errors)
+        },
+        completeEntry: (entryKey) => {
+          this.inFlightKeys.delete(entryKey)
+          this.notifyReadyCallbacks()
+        },
+        retryEntry: (entry, delay) => this.retryFailedEntry(entry, delay),
+        subscribe: (callback) => {
+          this.readyCallbacks.add(callback)
+
+          return () => {
+            this.readyCallbacks.delete(callback)
+          }
+        },
+        takeEntry: () => this.takeProcessableEntry()
+      },
+      handler,
+      options
+    )
+  }
+
+  /**
+   * Adds a pending entry to the queue now, without waiting for its delay.
+   * If the entry is already in the queue, it is handled like any other duplicate.
+   * If the queue is full, the queue overflow policy is applied, and an entry that is not added stays pending.
+   * @param entry - The pending entry.
+   * @returns `true` if the entry was pending, `false` otherwise.
+   * @throws {DOMException} A `QuotaExceededError`, if the queue is full and its overflow policy is `reject`.
+   */
+  public promotePendingEntry(entry: T): boolean {
+    this.assertNotDisposed()
+
+    const entryKey = this.getEntryKey(entry)
+
+    const pendingEntry = this.pendingEntriesByKey.get(entryKey)
+
+    if (pendingEntry === undefined) {
+      return false
+    }
+
+    if (this.makeRoomInQueue(entryKey, pendingEntry.value, true)) {
+      this.log(`Promoting pending entry: ${entryKey}`)
+      this.movePendingEntryToQueue(entryKey)
+    }
+
+    return true
+  }
+
+  /**
+   * Removes an entry from the queue, without dequeuing it.
+   * Pending entries are not affected. Use `clearPendingEntry` to clear a pending entry.
+   * @param entry - The entry to remove. Entries are matched by key.
+   * @returns `true` if the entry was found and removed, `false` otherwise.
+   */
+  public remove(entry: T): boolean {
+    this.assertNotDisposed()
+
+    return this.removeQueuedEntry(this.getEntryKey(entry))
+  }
+
+  /**
+   * Removes an event listener.
+   * @param eventType - The event type.
+   * @param listenerIdOrListener - The unique ID of the listener to remove, or the listener function itself.
+   */
+  public removeEventListener<E extends EventType>(
+    eventType: E,
+    listenerIdOrListener: EventListener<T, E> | string
+  ): void {
+    if (typeof listenerIdOrListener !== 'string') {
+      let isRegistered = false
+
+      for (const [listenerId, registeredListener] of this.eventListenerIds) {
+        if (
+          registeredListener.eventType === eventType &&
+          registeredListener.listener === listenerIdOrListener
+        ) {
+          isRegistered = true
+          this.eventListenerIds.delete(listenerId)
+          this.off(eventType, registeredListener.registeredListener)
+        }
+      }
+
+      // The listener may have been added with `on`.
+      if (!isRegistered) {
+        this.off(eventType, listenerIdOrListener as EmitterListener<T>)
+      }
+
+      return
+    }
+
+    const registeredListener = this.eventListenerIds.get(listenerIdOrListener)
+
+    if (registeredListener?.eventType === eventType) {
+      this.eventListenerIds.delete(listenerIdOrListener)
+      this.off(eventType, registeredListener.registeredListener)
+    }
+  }
+
+  /**
+   * Removes the entries that match a predicate, from both the queue and the pending entries.
+   * @param predicate - Returns `true` for the entries to remove.
+   * @returns The number of queued and pending entries that were removed.
+   */
+  public removeWhere(predicate: (entry: T, key: string) => boolean): number {
+    this.assertNotDisposed()
+
+    let removedCount = 0
+
+    for (const queueEntry of this.queue.entries()) {
+      if (
+        predicate(queueEntry.value, queueEntry.key) &&
+        this.removeQueuedEntry(queueEntry.key)
+      ) {
+        removedCount += 1
+      }
+    }
+
+    for (const [entryKey, pendingEntry] of this.pendingEntriesByKey) {
+      if (predicate(pendingEntry.value, entryKey)) {
+        this.cancelPendingEntry(entryKey, pendingEntry, 'removeWhere')
+        removedCount += 1
+      }
+    }
+
+    return removedCount
+  }
+
+  /**
+   * Changes when a pending entry is added to the queue, without replacing its value.
+   * The new delay starts now, and is not limited by `maxWaitMilliseconds`.
+   * Dispatches a `pendingReset` event with the new delay.
+   * @param entry - The pending entry.
+   * @param delayMilliseconds - The new delay in milliseconds, from now.
+   * @returns `true` if the entry was pending, `false` otherwise.
+   * @throws {RangeError} If the delay is NaN, infinite, or negative.
+   */
+  public reschedulePendingEntry(entry: T, delayMilliseconds: number): boolean {
+    this.assertNotDisposed()
+
+    assertValidMilliseconds('delayMilliseconds', delayMilliseconds)
+
+    const entryKey = this.getEntryKey(entry)
+
+    const pendingEntry = this.pendingEntriesByKey.get(entryKey)
+
+    if (pendingEntry === undefined) {
+      return false
+    }
+
+    this.log(`Rescheduling pending entry: ${entryKey}`)
+
+    this.changePendingDueTime(
+      entryKey,
+      pendingEntry,
+      delayMilliseconds,
+      this.clock.now() + delayMilliseconds
+    )
+
+    return true
+  }
+
+  /**
+   * Loads the pending and queued entries from the store.
+   * Pending entries are restored with their remaining delay,
+   * and pending entries whose delay passed while they were stored are added to the queue.
+   * Should be called on startup, before entries are enqueued.
+   * @returns The number of restored pending and queued entries.
+   */
+  public async restore(): Promise<RestoreResult> {
+    this.assertNotDisposed()
+
+    if (this.store === undefined) {
+      return { pending: 0, queue: 0 }
+    }
+
+    const result = this.loadState(await this.store.load())
+
+    this.log(
+      `Restored ${result.pending} pending entries and ${result.queue} queued entries.`
+    )
+
+    return result
+  }
+
+  /**
+   * Moves an entry from the dead-letter store back into the queue.
+   * @param entry - The entry to retry.
+   * @param entryDelayMilliseconds - Optional delay in milliseconds before the entry is added to the queue. Default is 0.
+   * @returns `true` if the entry was moved back into the queue,
+   * `false` if it was not found in the dead-letter store, or was dropped because the queue is full.
+   * @throws {DOMException} A `QuotaExceededError`, if the queue is full and the overflow policy is `reject`.
+   * The entry is kept in the dead-letter store.
+   */
+  public retryDeadLetter(entry: T, entryDelayMilliseconds = 0): boolean {
+    this.assertNotDisposed()
+
+    const entryKey = this.getEntryKey(entry)
+
+    const deadLetterEntry = this.deadLetterEntries.get(entryKey)
+
+    if (deadLetterEntry === undefined) {
+      return false
+    }
+
+    this.log(`Retrying dead-letter entry: ${entryKey}`)
+
+    // Removed first, so an entry that fails again straight away is dead-lettered again.
+    this.deadLetterEntries.delete(entryKey)
+
+    let isEnqueued = false
+
+    try {
+      isEnqueued = this.enqueue(deadLetterEntry.value, entryDelayMilliseconds)
+    } finally {
+      if (!isEnqueued) {
+        this.log(`Queue is full, keeping dead-letter entry: ${entryKey}`)
+        this.deadLetterEntries.set(entryKey, deadLetterEntry)
+      }
+    }
+
+    return isEnqueued
+  }
+
+  /**
+   * Shuts down the queue using the shutdown policy, then disposes of it.
+   * - `discard` - Pending entries are cleared.
+   * - `flush` - Pending entries are added to the queue,
+   *   then the queued entries are dequeued and handed to the `shutdownDrain` callback.
+   * - `persist` - Pending entries are kept in the store.
+   * Waits for the `shutdownDrain` callback and the store, up to the `shutdownTimeoutMilliseconds`.
+   * Errors and timeouts are dispatched as `error` events with a `source` of `'shutdown'`.
+   * Useful in a `SIGTERM` handler. Calling it again returns the same promise.
+   */
+  public async shutdown(): Promise<void> {
+    this.shutdownPromise ??= this.runShutdown()
+    await this.shutdownPromise
+  }
+
+  /**
+   * Creates a lossless, serializable copy of the queue,
+   * including the queued entries, the pending entries with their due times, and the configuration.
+   * Functions, like `getKey` and `merge`, are not included.
+   * @returns The snapshot.
+   */
+  public snapshot(): QueueSnapshot<T> {
+    this.assertNotDisposed()
+
+    const config: QueueSnapshotConfig = {
+      enqueueDelayMilliseconds: this.enqueueDelayMilliseconds,
+      mergeQueued: this.mergeQueued,
+      timingMode: this.timingMode
+    }
+
+    if (this.batchOptions !== undefined) {
+      config.batch = { ...this.batchOptions }
+    }
+
+    if (this.maxPending !== undefined) {
+      config.maxPending = this.maxPending
+    }
+
+    if (this.maxSize !== undefined) {
+      config.maxSize = this.maxSize
+    }
+
+    if (this.pendingOverflowPolicy !== 'dropNewest') {
+      config.pendingOverflowPolicy = this.pendingOverflowPolicy
+    }
+
+    if (this.queueOverflowPolicy !== 'dropNewest') {
+      config.queueOverflowPolicy = this.queueOverflowPolicy
+    }
+
+    if (this.maxWaitMilliseconds !== undefined) {
+      config.maxWaitMilliseconds = this.maxWaitMilliseconds
+    }
+
+    return {
+      config,
+      pending: [...this.pendingEntriesByKey].map(([entryKey, pendingEntry]) =>
+        toStoredPendingEntry(entryKey, pendingEntry)
+      ),
+      queue: this.queue.entries(),
+      takenAt: this.clock.now()
+    }
+  }
+
+  /**
+   * Gets the size of the queue.
+   * @returns The number of entries in the queue.
+   */
+  public size(): number {
+    this.assertNotDisposed()
+
+    return this.queue.size()
+  }
+
+  /**
+   * Converts the queue to an array.
+   * @returns An array containing the entries in the queue.
+   */
+  public toArray(): T[] {
+    this.assertNotDisposed()
+
+    return this.queue.entries().map((queueEntry) => queueEntry.value)
+  }
+
+  /**
+   * Converts the queue to a snapshot when serialized with `JSON.stringify`.
+   * @returns The snapshot.
+   */
+  public toJSON(): QueueSnapshot<T> {
+    return this.snapshot()
+  }
+
+  /**
+   * Iterates over entries as they become available,
+   * dequeuing each one using `dequeueAsync`.
+   * The iteration ends when the queue is disposed.
+   * @yields The dequeued entries.
+   */
+  public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    while (!this.isDisposed) {
+      let entry: T
+
+      try {
+        entry = await this.dequeueAsync()
+      } catch (error) {
+        if (this.isDisposed) {
+          return
+        }
+
+        throw error
+      }
+
+      yield entry
+    }
+  }
+
+  /**
+   * Disposes of the queue, then waits for all changes to be written to the store.
+   * Called at the end of an `await using` block.
+   */
+  public async [Symbol.asyncDispose](): Promise<void> {
+    this.dispose()
+    await this.flushStore()
+  }
+
+  /**
+   * Disposes of the queue.
+   * Called at the end of a `using` block.
+   */
+  public [Symbol.dispose](): void {
+    this.dispose()
+  }
+
+  private afterDequeue(entryKey: string, entry: T): void {
+    this.removeFromStore(entryKey, 'queue')
+
+    this.triggerEvents('dequeue', entry, { key: entryKey })
+
+    if (this.queue.size() === 0) {
+      this.triggerEvents('drain', {
+        pendingCount: this.pendingEntriesByKey.size
+      })
+    }
+  }
+
+  private addDeadLetterEntry(entry: T, errors: unknown[]): void {
+    const entryKey = this.getEntryKey(entry)
+
+    const existingEntry = this.deadLetterEntries.get(entryKey)
+
+    const value =
+      existingEntry === undefined
+        ? entry
+        : this.mergeEntries(existingEntry.value, entry)
+
+    this.deadLetterEntries.set(entryKey, {
+      deadLetteredAt: this.clock.now(),
+      errors: [...(existingEntry?.errors ?? []), ...errors],
+      value
+    })
+
+    this.log(`Moved entry to dead-letter store: ${entryKey}`)
+
+    this.triggerEvents('deadLetter', value, {
+      errors: [...errors],
+      key: entryKey
+    })
+  }
+
+  /**
+   * Arms the batch timer, so the ready entries are dispatched
+   * once the batch window has passed since the first entry was ready.
+   */
+  private armBatchTimeout(): void {
+    if (this.queue.size() === 0) {
+      this.clock.clearTimer(this.batchTimeout)
+      this.batchTimeout = undefined
+      return
+    }
 
-const debug = Debug(`${DEBUG_NAMESPACE}:index`)
+    if (this.batchTimeout !== undefined) {
+      return
+    }
 
-export const eventTypes = ['enqueue'] as const
+    const { maxWaitMilliseconds } = this.batchOptions as BatchOptions
 
-export type EventType = (typeof eventTypes)[number]
+    this.batchTimeout = this.clock.setTimer(
+      () => {
+        this.batchTimeout = undefined
+        this.flushBatches('window')
+      },
+      Math.max(0, this.firstReadyAt + maxWaitMilliseconds - this.clock.now())
+    )
+  }
 
-/**
- * A queue that enqueues unique entries after a specified delay.
- */
-export default class UniqueTimedEntryQueue<T = number | string> {
-  private readonly enqueueDelayMilliseconds: number
+  /**
+   * Arms the pending timer for the pending entry that is due first.
+   * A timer that is already armed for an earlier time is kept,
+   * and re-armed when it fires, so removing or delaying pending entries does not restart it.
+   */
+  private armPendingTimeout(): void {
+    if (this.isPromotingPendingEntries) {
+      return
+    }
 
-  private readonly eventListeners: Record<
-    EventType,
-    Record<string, (entry: T) => void>
-  >
+    const scheduledKey = this.pendingSchedule.peek()
 
-  private readonly pendingEntries: Map<
-    string,
-    {
-      timeout: NodeJS.Timeout
-      value: T
+    if (scheduledKey === undefined) {
+      this.clock.clearTimer(this.pendingTimeout)
+      this.pendingTimeout = undefined
+      return
     }
-  >
 
-  private readonly queue: T[]
+    if (
+      this.pendingTimeout !== undefined &&
+      this.pendingTimeoutDueAt <= scheduledKey.dueAt
+    ) {
+      return
+    }
 
-  /**
-   * Creates a new UniqueTimedEntryQueue.
-   * @param enqueueDelayMilliseconds - The delay in milliseconds before an entry is added to the queue. Default is 60000 (1 minute).
-   */
-  // eslint-disable-next-line @typescript-eslint/no-magic-numbers
-  constructor(enqueueDelayMilliseconds = 60_000) {
-    this.enqueueDelayMilliseconds = Math.max(0, enqueueDelayMilliseconds)
+    this.clock.clearTimer(this.pendingTimeout)
 
-    if (enqueueDelayMilliseconds === 0) {
-      debug(
-        'Warning: enqueueDelayMilliseconds is set to 0, entries will be added immediately and uniqueness will not be enforced.'
+    this.pendingTimeoutDueAt = scheduledKey.dueAt
+    this.pendingTimeout = this.clock.setTimer(
+      () => {
+        this.promoteDuePendingEntries()
+      },
+      Math.min(
+        maxTimerDelayMilliseconds,
+        Math.max(0, scheduledKey.dueAt - this.clock.now())
       )
+    )
+  }
+
+  private assertNotDisposed(): void {
+    if (this.isDisposed) {
+      throw createDisposedError()
     }
+  }
 
-    this.eventListeners = {
-      enqueue: {}
+  /**
+   * Handles the pending entries using the shutdown policy.
+   * Runs synchronously, so it can also be used when the process exits.
+   */
+  private beginShutdown(): void {
+    if (this.isShuttingDown || this.isDisposed) {
+      return
     }
 
-    this.pendingEntries = new Map()
+    this.isShuttingDown = true
 
-    this.queue = []
+    switch (this.shutdownPolicy) {
+      case 'discard': {
+        this.clearPending()
+        break
+      }
+      case 'flush': {
+        this.enqueuePending()
+        break
+      }
+      case 'persist': {
+        // Keep the stored pending entries, so they can be restored on startup.
+        this.clock.clearTimer(this.pendingTimeout)
+        this.pendingTimeout = undefined
+        break
+      }
+    }
+  }
 
-    exitHook(() => {
-      debug(
-        `Process exiting, clearing ${this.pendingEntries.size} pending entry timeouts.`
-      )
-      this.clearPending()
+  private cancelPendingEntry(
+    entryKey: string,
+    pendingEntry: PendingEntry<T>,
+    reason: PendingCancelEventDetails['reason']
+  ): void {
+    this.deletePendingEntry(entryKey, pendingEntry)
+
+    this.triggerEvents('pendingCancel', pendingEntry.value, {
+      key: entryKey,
+      reason
     })
   }
 
   /**
-   * Adds an event listener for the specified event type.
-   * @param eventType - The event type to listen for.
-   * @param listener - The listener function to call when the event occurs.
-   * @returns A unique ID for the listener.
+   * Moves the due time of a pending entry, keeping its value,
+   * and dispatches a `pendingReset` event with the remaining delay.
+   * @param entryKey - The key of the pending entry.
+   * @param pendingEntry - The pending entry.
+   * @param delay - The new requested delay.
+   * @param dueAt - The new due time.
    */
-  public addEventListener(
-    eventType: EventType,
-    listener: (entry: T) => void
-  ): string {
-    const listenerId = generateUniqueListenerId()
+  private changePendingDueTime(
+    entryKey: string,
+    pendingEntry: PendingEntry<T>,
+    delay: number,
+    dueAt: number
+  ): void {
+    this.schedulePendingEntry(entryKey, { ...pendingEntry, delay, dueAt })
 
-    // eslint-disable-next-line security/detect-object-injection
-    this.eventListeners[eventType][listenerId] = listener
+    this.triggerEvents('pendingReset', pendingEntry.value, {
+      delay: Math.max(0, dueAt - this.clock.now()),
+      key: entryKey
+    })
+  }
 
-    return listenerId
+  private deletePendingEntry(
+    entryKey: string,
+    pendingEntry: PendingEntry<T>
+  ): void {
+    this.pendingEntriesByKey.delete(entryKey)
+    this.pendingSchedule.delete(entryKey)
+    this.armPendingTimeout()
+    this.removeFromStore(entryKey, 'pending')
   }
 
   /**
-   * Clears all entries from the queue.
-   * @returns The number of entries that were cleared.
+   * Dispatches full batches of ready entries as `batch` events,
+   * then arms the batch timer for the entries that remain.
    */
-  public clear(): number {
-    const clearedCount = this.queue.length
-    this.queue.length = 0
-    return clearedCount
+  private dispatchBatches(): void {
+    const { maxSize } = this.batchOptions as BatchOptions
+
+    while (this.queue.size() >= maxSize) {
+      this.triggerEvents('batch', this.takeBatch(maxSize), { reason: 'size' })
+    }
+
+    this.armBatchTimeout()
   }
 
   /**
-   * Clears all entries from the queue and all pending entries.
-   * This is the same as calling both `clearPending` and `clear`.
-   * @returns The total number of entries that were cleared.
+   * Hands the queued entries to the `shutdownDrain` callback, when using the `flush` policy,
+   * then waits for all changes to be written to the store.
    */
-  public clearAll(): number {
-    const clearedPending = this.clearPending()
-    const clearedQueue = this.clear()
+  private async finishShutdown(): Promise<void> {
+    if (this.shutdownPolicy === 'flush' && this.shutdownDrain !== undefined) {
+      const entries = this.drain()
+
+      this.log(`Draining ${entries.length} entries on shutdown.`)
+
+      await this.shutdownDrain(entries)
+    }
 
-    return clearedPending + clearedQueue
+    await this.flushStore()
   }
 
   /**
-   * Clears all pending entries.
-   * This does not affect entries already in the queue.
-   * This is useful for stopping all pending enqueues, and should be called before destroying the queue.
-   * @returns The number of pending entries that were cleared.
+   * Dispatches all ready entries as `batch` events, without waiting for full batches.
+   * @param reason - Why the batches were dispatched early.
    */
-  public clearPending(): number {
-    for (const timeout of this.pendingEntries.values()) {
-      clearTimeout(timeout.timeout)
+  private flushBatches(reason: BatchEventDetails['reason']): void {
+    const { maxSize } = this.batchOptions as BatchOptions
+
+    this.clock.clearTimer(this.batchTimeout)
+    this.batchTimeout = undefined
+
+    while (this.queue.size() > 0) {
+      this.triggerEvents('batch', this.takeBatch(maxSize), { reason })
     }
+  }
 
-    const pendingCount = this.pendingEntries.size
+  private handleListenerError(error: unknown, eventType: EventType): void {
+    this.log(`Error in "${eventType}" event listener.`, error)
 
-    this.pendingEntries.clear()
+    if (eventType === 'error') {
+      return
+    }
 
-    return pendingCount
+    if (this.onListenerError !== undefined) {
+      try {
+        this.onListenerError(error, eventType)
+      } catch (handlerError) {
+        this.log('Error in onListenerError handler.', handlerError)
+      }
+    }
+
+    this.triggerEvents('error', error, { eventType, source: 'listener' })
   }
 
   /**
-   * Clears a specific pending entry.
-   * @param entry - The entry to clear from pending.
-   * @returns True if the entry was found and cleared, false otherwise.
+   * Adds stored entries to the queue.
+   * Pending entries are scheduled with their remaining delay,
+   * and pending entries that are past due are added to the queue.
+   * @param state - The stored entries.
+   * @returns The number of pending and queued entries that were added.
    */
-  public clearPendingEntry(entry: T): boolean {
-    const stringEntry = valueToString(entry)
+  private loadState(state: StoredQueueState<T>): RestoreResult {
+    const result: RestoreResult = { pending: 0, queue: 0 }
 
-    if (this.pendingEntries.has(stringEntry)) {
-      debug(`Clearing pending entry timeout: ${stringEntry}`)
-      clearTimeout(this.pendingEntries.get(stringEntry)?.timeout)
-      this.pendingEntries.delete(stringEntry)
-      return true
+    for (const queueEntry of state.queue) {
+      if (
+        this.pushEntry(queueEntry.key, queueEntry.value, queueEntry.priority)
+      ) {
+        result.queue += 1
+      }
     }
 
-    return false
+    const now = this.clock.now()
+
+    for (const pendingEntry of state.pending) {
+      if (this.pendingEntriesByKey.has(pendingEntry.key)) {
+        continue
+      }
+
+      if (pendingEntry.dueAt <= now) {
+        this.removeFromStore(pendingEntry.key, 'pending')
+
+        if (this.pushEntry(pendingEntry.key, pendingEntry.value)) {
+          this.log(`Enqueued past due entry: ${pendingEntry.key}`)
+          result.queue += 1
+        }
+      } else {
+        this.schedulePendingEntry(pendingEntry.key, {
+          delay: pendingEntry.delay,
+          dueAt: pendingEntry.dueAt,
+          enqueuedAt: pendingEntry.enqueuedAt,
+          lastEnqueuedAt: pendingEntry.lastEnqueuedAt,
+          lastResetAt: pendingEntry.lastResetAt,
+          resetCount: pendingEntry.resetCount ?? 0,
+          value: pendingEntry.value
+        })
+
+        result.pending += 1
+      }
+    }
+
+    return result
   }
 
   /**
-   * Dequeues an entry from the front of the queue.
-   * @returns The dequeued entry, or undefined if the queue is empty.
+   * Applies the pending overflow policy when the pending entries are full.
+   * @param entryKey - The key of the new pending entry.
+   * @param entry - The new pending entry.
+   * @returns `true` if there is room for the entry, `false` if it was dropped.
+   * @throws {DOMException} A `QuotaExceededError`, if the policy is `reject`.
    */
-  public dequeue(): T | undefined {
-    return this.queue.shift()
+  private makeRoomInPending(entryKey: string, entry: T): boolean {
+    if (
+      this.maxPending === undefined ||
+      this.pendingEntriesByKey.size < this.maxPending
+    ) {
+      return true
+    }
+
+    const details: OverflowEventDetails = {
+      key: entryKey,
+      limit: this.maxPending,
+      policy: this.pendingOverflowPolicy,
+      target: 'pending'
+    }
+
+    switch (this.pendingOverflowPolicy) {
+      case 'dropNewest': {
+        this.log(`Pending entries are full, dropping entry: ${entryKey}`)
+        this.triggerEvents('overflow', entry, details)
+        return false
+      }
+      case 'dropOldest':
+      case 'promoteOldest': {
+        // Map iteration follows insertion order, so the first key was enqueued first.
+        const [oldestKey, oldestEntry] = this.pendingEntriesByKey
+          .entries()
+          .next().value as [string, PendingEntry<T>]
+
+        if (this.pendingOverflowPolicy === 'dropOldest') {
+          this.log(`Pending entries are full, dropping entry: ${oldestKey}`)
+          this.cancelPendingEntry(oldestKey, oldestEntry, 'overflow')
+        } else {
+          this.log(`Pending entries are full, promoting entry: ${oldestKey}`)
+          this.movePendingEntryToQueue(oldestKey)
+        }
+
+        this.triggerEvents('overflow', entry, {
+          ...details,
+          evictedKey: oldestKey
+        })
+        return true
+      }
+      case 'reject': {
+        this.log(`Pending entries are full, rejecting entry: ${entryKey}`)
+        this.triggerEvents('overflow', entry, details)
+        throw createOverflowError('pending', this.maxPending)
+      }
+    }
   }
 
   /**
-   * Enqueues an entry **after the specified delay**.
-   * If the entry is already pending, the delay is reset.
-   * If the entry is already in the queue, it will not be added again.
-   * @param entry - The entry to enqueue.
-   * @param entryDelayMilliseconds - Optional delay in milliseconds for this specific entry. If not provided, the default delay is used.
+   * Applies the queue overflow policy when the queue is full,
+   * unless the entry is already queued.
+   * @param entryKey - The key of the entry being added to the queue.
+   * @param entry - The entry being added to the queue.
+   * @param canReject - When `true`, the `reject` policy throws, rather than dropping the entry.
+   * @returns `true` if there is room for the entry, `false` if it was dropped.
+   * @throws {DOMException} A `QuotaExceededError`, if the policy is `reject` and `canReject` is `true`.
    */
-  public enqueue(entry: T, entryDelayMilliseconds?: number): void {
-    this.clearPendingEntry(entry)
+  private makeRoomInQueue(
+    entryKey: string,
+    entry: T,
+    canReject: boolean
+  ): boolean {
+    if (
+      this.maxSize === undefined ||
+      this.queue.size() < this.maxSize ||
+      this.queue.has(entryKey)
+    ) {
+      return true
+    }
 
-    const delay = entryDelayMilliseconds ?? this.enqueueDelayMilliseconds
+    const details: OverflowEventDetails = {
+      key: entryKey,
+      limit: this.maxSize,
+      policy: this.queueOverflowPolicy,
+      target: 'queue'
+    }
 
-    if (delay <= 0) {
-      if (this.queue.includes(entry)) {
-        debug(`Entry already in queue, not enqueuing: ${valueToString(entry)}`)
-        return
-      }
+    if (this.queueOverflowPolicy === 'dropOldest') {
+      const oldestEntry =
+        this.queue.shiftLowestPriority() as StoredQueueEntry<T>
 
-      this.queue.push(entry)
-      this.triggerEvents('enqueue', entry)
+      this.log(`Queue is full, dropping entry: ${oldestEntry.key}`)
+      this.removeFromStore(oldestEntry.key, 'queue')
 
-      debug(`Enqueued entry immediately (zero delay): ${valueToString(entry)}`)
-      return
+      this.triggerEvents('overflow', entry, {
+        ...details,
+        evictedKey: oldestEntry.key
+      })
+      return true
+    }
+
+    this.log(`Queue is full, dropping entry: ${entryKey}`)
+    this.triggerEvents('overflow', entry, details)
+
+    if (this.queueOverflowPolicy === 'reject' && canReject) {
+      throw createOverflowError('queue', this.maxSize)
     }
 
-    const stringEntry = valueToString(entry)
+    return false
+  }
 
-    const timeout = setTimeout(() => {
-      this.pendingEntries.delete(stringEntry)
+  /**
+   * Moves a pending entry to the queue, once its delay has passed or when it is promoted early.
+   * @param entryKey - The key of the pending entry.
+   */
+  private movePendingEntryToQueue(entryKey: string): void {
+    const pendingEntry = this.pendingEntriesByKey.get(entryKey)
 
-      if (this.queue.includes(entry)) {
-        debug(`Entry already in queue, not enqueuing: ${stringEntry}`)
-        return
-      }
+    if (pendingEntry === undefined) {
+      return
+    }
 
-      this.queue.push(entry)
-      this.triggerEvents('enqueue', entry)
+    this.deletePendingEntry(entryKey, pendingEntry)
 
-      debug(`Enqueued entry: ${stringEntry}`)
-    }, delay)
+    if (this.pushEntry(entryKey, pendingEntry.value)) {
+      this.log(`Enqueued entry: ${entryKey}`)
+    }
+  }
 
-    this.pendingEntries.set(stringEntry, { timeout, value: entry })
+  private notifyReadyCallbacks(): void {
+    for (const callback of this.readyCallbacks) {
+      callback()
+    }
   }
 
   /**
-   * Enqueues a list of entries after the specified delay.
-   * If an entry is already pending, the delay is reset.
-   * If an entry is already in the queue, it will not be added again.
-   * @param entries - The entries to enqueue.
-   * @param entryDelayMilliseconds - Optional delay in milliseconds for these specific entries. If not provided, the default delay is used.
+   * Runs a store operation after all previous store operations have completed.
+   * Store errors are dispatched as `error` events.
+   * @param operation - The store operation.
    */
-  public enqueueAll(entries: T[], entryDelayMilliseconds?: number): void {
-    for (const entry of entries) {
-      this.enqueue(entry, entryDelayMilliseconds)
+  private persist(operation: (store: QueueStore<T>) => Promise<void>): void {
+    const store = this.store
+
+    if (store === undefined) {
+      return
     }
+
+    this.storeOperations = this.storeOperations
+      .then(async () => {
+        await operation(store)
+      })
+      .catch((error: unknown) => {
+        this.log('Error in queue store.', error)
+        this.triggerEvents('error', error, { source: 'store' })
+      })
   }
 
   /**
-   * Gets the enqueue delay in milliseconds.
-   * @returns The enqueue delay in milliseconds.
+   * Moves the pending entries whose delay has passed to the queue,
+   * then re-arms the pending timer for the next pending entry.
    */
-  public enqueueDelay(): number {
-    return this.enqueueDelayMilliseconds
+  private promoteDuePendingEntries(): void {
+    this.pendingTimeout = undefined
+    this.isPromotingPendingEntries = true
+
+    try {
+      const now = this.clock.now()
+
+      let scheduledKey = this.pendingSchedule.peek()
+
+      while (scheduledKey !== undefined && scheduledKey.dueAt <= now) {
+        this.movePendingEntryToQueue(scheduledKey.key)
+        scheduledKey = this.pendingSchedule.peek()
+      }
+    } finally {
+      this.isPromotingPendingEntries = false
+    }
+
+    this.armPendingTimeout()
   }
 
   /**
-   * Enqueues all pending entries, bypassing the delay.
+   * Adds an entry to the end of its priority in the queue, unless an entry with the same key is already queued.
+   * A queued entry with the same key is moved up if the new priority is higher.
+   * @param entryKey - The key of the entry.
+   * @param entry - The entry to add.
+   * @param priority - The priority of the entry. Defaults to the result of the `getPriority` option.
+   * @returns `true` if the entry was added, `false` if it was a duplicate or the queue is full.
    */
-  public enqueuePending(): void {
-    for (const stringValue of this.pendingEntries.keys()) {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
-      const pendingEntry = this.pendingEntries.get(stringValue) as {
-        timeout: NodeJS.Timeout
-        value: T
+  private pushEntry(
+    entryKey: string,
+    entry: T,
+    priority = this.getEntryPriority(entry)
+  ): boolean {
+    if (!this.makeRoomInQueue(entryKey, entry, false)) {
+      return false
+    }
+
+    const queueEntry: StoredQueueEntry<T> =
+      priority === 0
+        ? { key: entryKey, value: entry }
+        : { key: entryKey, priority, value: entry }
+
+    if (!this.queue.push(queueEntry)) {
+      const raisedEntry = this.queue.raisePriority(entryKey, priority)
+
+      if (raisedEntry !== undefined) {
+        this.log(`Raised the priority of queued entry: ${entryKey}`)
       }
 
-      this.pendingEntries.delete(stringValue)
+      const mergedEntry = this.mergeQueued
+        ? this.queue.update(entryKey, (queuedValue) =>
+            this.mergeEntries(queuedValue, entry)
+          )
+        : undefined
 
-      clearTimeout(pendingEntry.timeout)
+      if (mergedEntry === undefined) {
+        this.log(`Entry already in queue, not enqueuing: ${entryKey}`)
+      } else {
+        this.log(`Merging with queued entry: ${entryKey}`)
+      }
 
-      if (this.queue.includes(pendingEntry.value)) {
-        debug(
-          `Entry already in queue, not enqueuing pending entry: ${stringValue}`
-        )
-        continue
+      const updatedEntry = mergedEntry ?? raisedEntry
+
+      if (updatedEntry !== undefined) {
+        this.saveQueueToStore(updatedEntry)
       }
 
-      this.queue.push(pendingEntry.value)
-      this.triggerEvents('enqueue', pendingEntry.value)
+      this.triggerEvents('duplicate', entry, {
+        key: entryKey,
+        reason: this.mergeQueued ? 'merged' : 'discarded'
+      })
+
+      return false
+    }
 
-      debug(`Enqueued pending entry immediately: ${stringValue}`)
+    if (this.queue.size() === 1) {
+      this.firstReadyAt = this.clock.now()
     }
+
+    this.saveQueueToStore(queueEntry)
+
+    this.triggerEvents('enqueue', entry, { key: entryKey })
+
+    this.resolveDequeueWaiters()
+    this.notifyReadyCallbacks()
+
+    return true
   }
 
-  /**
-   * Checks if there are pending entries.
-   * @returns `true` if there are pending entries, `false` otherwise.
-   */
-  public hasPending(): boolean {
-    return this.pendingEntries.size > 0
+  private removeFromStore(
+    entryKey: string,
+    collection: StoredCollection
+  ): void {
+    if (collection === 'queue' && this.hasSharedQueue) {
+      return
+    }
+
+    this.persist(async (store) => {
+      await store.remove(entryKey, collection)
+    })
   }
 
   /**
-   * Checks if an entry is pending.
-   * @param entry - The entry to check.
-   * @returns `true` if the entry is pending, `false` otherwise.
+   * Removes an entry from the queue, without dequeuing it.
+   * @param entryKey - The key of the entry.
+   * @returns `true` if the entry was removed, `false` if it was not queued.
    */
-  public hasPendingEntry(entry: T): boolean {
-    const stringEntry = valueToString(entry)
-    return this.pendingEntries.has(stringEntry)
+  private removeQueuedEntry(entryKey: string): boolean {
+    const queueEntry = this.queue.delete(entryKey)
+
+    if (queueEntry === undefined) {
+      return false
+    }
+
+    this.log(`Removed queued entry: ${entryKey}`)
+    this.removeFromStore(entryKey, 'queue')
+
+    this.triggerEvents('remove', queueEntry.value, { key: entryKey })
+
+    return true
   }
 
   /**
-   * Checks if the queue is empty.
-   * @returns `true` if the queue is empty, `false` otherwise.
+   * Hands queued entries to waiting `dequeueAsync` calls, in order.
    */
-  public isEmpty(): boolean {
-    return this.queue.length === 0
+  private resolveDequeueWaiters(): void {
+    while (this.dequeueWaiters.length > 0) {
+      const queueEntry = this.shiftEntry()
+
+      if (queueEntry === undefined) {
+        return
+      }
+
+      const waiter = this.dequeueWaiters.shift() as DequeueWaiter<T>
+      waiter.resolve(queueEntry.value)
+    }
   }
 
   /**
-   * Gets the number of pending entries.
-   * @returns The number of entries that are pending to be added to the queue.
+   * Removes up to a number of entries from the front of the queue,
+   * and restarts the batch window for the entries that remain.
+   * @param maxSize - The maximum number of entries to remove.
+   * @returns The removed entries, in queue order.
    */
-  public pendingSize(): number {
-    return this.pendingEntries.size
-  }
-
   /**
-   * Converts the pending entries to an array.
-   * @returns An array containing the pending entries.
+   * Re-enqueues an entry that failed while it was being processed.
+   * When a newer entry with the same key is pending or queued,
+   * the failed entry is merged into it as the existing value, so the newer update is kept.
+   * @param entry - The failed entry.
+   * @param delay - The retry delay in milliseconds, or `undefined` for the default delay.
+   * @returns Whether the entry was re-enqueued, merged into a newer entry, or dropped.
    */
-  public pendingToArray(): T[] {
-    const pendingValues: T[] = []
+  private retryFailedEntry(entry: T, delay: number | undefined): RetryResult {
+    if (this.isDisposed) {
+      return 'dropped'
+    }
+
+    const entryKey = this.getEntryKey(entry)
+
+    const pendingEntry = this.pendingEntriesByKey.get(entryKey)
+
+    if (pendingEntry !== undefined) {
+      this.log(`Merging failed entry into newer pending entry: ${entryKey}`)
+      pendingEntry.value = this.mergeEntries(entry, pendingEntry.value)
+      this.savePendingToStore(entryKey, pendingEntry)
+      return 'merged'
+    }
+
+    if (this.queue.has(entryKey)) {
+      const mergedEntry = this.mergeQueued
+        ? this.queue.update(entryKey, (queuedValue) =>
+            this.mergeEntries(entry, queuedValue)
+          )
+        : undefined
+
+      if (mergedEntry !== undefined) {
+        this.log(`Merging failed entry into newer queued entry: ${entryKey}`)
+        this.saveQueueToStore(mergedEntry)
+      }
+
+      return 'merged'
+    }
+
+    return this.enqueue(entry, delay) ? 'retried' : 'dropped'
+  }
 
-    for (const pendingEntry of this.pendingEntries.values()) {
-      pendingValues.push(pendingEntry.value)
+  private takeBatch(maxSize: number): T[] {
+    const entries: T[] = []
+
+    while (entries.length < maxSize) {
+      const queueEntry = this.shiftEntry()
+
+      if (queueEntry === undefined) {
+        break
+      }
+
+      entries.push(queueEntry.value)
     }
 
-    return pendingValues
+    this.firstReadyAt = this.clock.now()
+
+    return entries
   }
 
   /**
-   * Removes an event listener.
-   * @param eventType - The event type.
-   * @param listenerId - The unique ID of the listener to remove.
+   * Removes the first entry from the queue whose key is not already in flight,
+   * and marks its key as in flight.
+   * @returns The entry and its key, or `undefined` if there is no entry to process.
    */
-  public removeEventListener(eventType: EventType, listenerId: string): void {
-    // eslint-disable-next-line security/detect-object-injection
-    const listeners = this.eventListeners[eventType]
+  private takeProcessableEntry(): StoredQueueEntry<T> | undefined {
+    if (this.isDisposed) {
+      return undefined
+    }
 
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (listeners !== undefined && Object.hasOwn(listeners, listenerId)) {
-      // eslint-disable-next-line security/detect-object-injection, @typescript-eslint/no-dynamic-delete
-      delete listeners[listenerId]
+    const queueEntry = this.queue.shift(this.inFlightKeys)
+
+    if (queueEntry !== undefined) {
+      this.inFlightKeys.add(queueEntry.key)
+      this.afterDequeue(queueEntry.key, queueEntry.value)
+    }
+
+    return queueEntry
+  }
+
+  private async runShutdown(): Promise<void> {
+    if (this.isDisposed) {
+      return
+    }
+
+    this.beginShutdown()
+
+    let timeout: unknown
+
+    try {
+      // eslint-disable-next-line promise/avoid-new
+      const timeoutPromise = new Promise<never>((_resolve, reject) => {
+        timeout = this.clock.setTimer(() => {
+          reject(
+            new DOMException(
+              `The queue did not shut down within ${this.shutdownTimeoutMilliseconds} milliseconds.`,
+              'TimeoutError'
+            )
+          )
+        }, this.shutdownTimeoutMilliseconds)
+      })
+
+      await Promise.race([this.finishShutdown(), timeoutPromise])
+    } catch (error) {
+      this.log('Error shutting down the queue.', error)
+      this.triggerEvents('error', error, { source: 'shutdown' })
+    } finally {
+      this.clock.clearTimer(timeout)
+      this.dispose()
+    }
+  }
+
+  private savePendingToStore(
+    entryKey: string,
+    pendingEntry: PendingEntry<T>
+  ): void {
+    this.persist(async (store) => {
+      await store.savePending(toStoredPendingEntry(entryKey, pendingEntry))
+    })
+  }
+
+  private saveQueueToStore(queueEntry: StoredQueueEntry<T>): void {
+    if (this.hasSharedQueue) {
+      return
     }
+
+    this.persist(async (store) => {
+      await store.saveQueue(queueEntry)
+    })
   }
 
   /**
-   * Gets the size of the queue.
-   * @returns The number of entries in the queue.
+   * Schedules a pending entry, replacing any existing pending entry with the same key.
+   * @param entryKey - The key of the entry.
+   * @param pendingEntry - The pending entry.
    */
-  public size(): number {
-    return this.queue.length
+  private schedulePendingEntry(
+    entryKey: string,
+    pendingEntry: PendingEntry<T>
+  ): void {
+    this.pendingEntriesByKey.set(entryKey, pendingEntry)
+    this.pendingSchedule.set(entryKey, pendingEntry.dueAt)
+    this.armPendingTimeout()
+    this.savePendingToStore(entryKey, pendingEntry)
   }
 
   /**
-   * Converts the queue to an array.
-   * @returns An array containing the entries in the queue.
+   * Removes the entry at the front of the queue.
+   * @returns The removed entry and its key, or undefined if the queue is empty.
    */
-  public toArray(): T[] {
-    return [...this.queue]
+  private shiftEntry(): StoredQueueEntry<T> | undefined {
+    const queueEntry = this.queue.shift()
+
+    if (queueEntry !== undefined) {
+      this.afterDequeue(queueEntry.key, queueEntry.value)
+    }
+
+    return queueEntry
   }
 
-  private triggerEvents(eventType: EventType, entry: T): void {
-    // eslint-disable-next-line security/detect-object-injection
-    for (const listener of Object.values(this.eventListeners[eventType])) {
-      listener(entry)
+  private triggerEvents<E extends EventType>(
+    eventType: E,
+    ...eventArguments: EventArguments<T>[E]
+  ): void {
+    const listeners = this.rawListeners(eventType) as Array<EventListener<T, E>>
+
+    for (const listener of listeners) {
+      try {
+        const result = listener.apply(this, eventArguments)
+
+        if (result instanceof Promise) {
+          result.catch((error: unknown) => {
+            this.handleListenerError(error, eventType)
+          })
+        }
+      } catch (error) {
+        this.handleListenerError(error, eventType)
+      }
     }
   }
 }
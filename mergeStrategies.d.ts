@@ -0,0 +1,21 @@
+/**
+ * Built-in strategies for merging an incoming entry
+ * with an existing entry that has the same key.
+ */
+export declare const mergeStrategies: {
+    /**
+     * Keeps the existing entry, discarding the incoming entry.
+     * @param existing - The entry that is already pending or queued.
+     * @returns The existing entry.
+     */
+    readonly keepFirst: <T>(existing: T) => T;
+    /**
+     * Replaces the existing entry with the incoming entry.
+     * This is the default strategy.
+     * @param existing - The entry that is already pending or queued.
+     * @param incoming - The entry being enqueued.
+     * @returns The incoming entry.
+     */
+    readonly keepLatest: <T>(existing: T, incoming: T) => T;
+};
+export type MergeFunction<T> = (existing: T, incoming: T) => T;
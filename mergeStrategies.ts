@@ -0,0 +1,27 @@
+/**
+ * Built-in strategies for merging an incoming entry
+ * with an existing entry that has the same key.
+ */
+export const mergeStrategies = {
+  /**
+   * Keeps the existing entry, discarding the incoming entry.
+   * @param existing - The entry that is already pending or queued.
+   * @returns The existing entry.
+   */
+  keepFirst<T>(existing: T): T {
+    return existing
+  },
+
+  /**
+   * Replaces the existing entry with the incoming entry.
+   * This is the default strategy.
+   * @param existing - The entry that is already pending or queued.
+   * @param incoming - The entry being enqueued.
+   * @returns The incoming entry.
+   */
+  keepLatest<T>(existing: T, incoming: T): T {
+    return incoming
+  }
+} as const
+
+export type MergeFunction<T> = (existing: T, incoming: T) => T
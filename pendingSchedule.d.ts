@@ -0,0 +1,59 @@
+interface ScheduledKey {
+    dueAt: number;
+    key: string;
+    /**
+     * Orders keys with the same due time by when they were scheduled.
+     */
+    sequence: number;
+}
+/**
+ * An indexed min-heap of keys, ordered by due time.
+ * Keys with the same due time are ordered by when they were scheduled.
+ * Keys can be added, rescheduled and removed in O(log n) time,
+ * and the key that is due first is found in O(1) time.
+ */
+export declare class PendingSchedule {
+    private readonly heap;
+    private readonly heapIndexes;
+    private sequence;
+    /**
+     * Removes all keys.
+     */
+    clear(): void;
+    /**
+     * Removes a key.
+     * @param key - The key to remove.
+     * @returns `true` if the key was scheduled, `false` otherwise.
+     */
+    delete(key: string): boolean;
+    /**
+     * Gets the key that is due first, without removing it.
+     * @returns The key and its due time, or `undefined` if no keys are scheduled.
+     */
+    peek(): ScheduledKey | undefined;
+    /**
+     * Adds a key, or reschedules it if it is already scheduled.
+     * @param key - The key.
+     * @param dueAt - The time the key is due, in milliseconds since the epoch.
+     */
+    set(key: string, dueAt: number): void;
+    /**
+     * Gets the number of scheduled keys.
+     * @returns The number of scheduled keys.
+     */
+    size(): number;
+    private place;
+    /**
+     * Moves a key down the heap until neither of its children is due before it.
+     * @param heapIndex - The current index of the key.
+     * @returns The new index of the key.
+     */
+    private siftDown;
+    /**
+     * Moves a key up the heap until its parent is due before it.
+     * @param heapIndex - The current index of the key.
+     * @returns The new index of the key.
+     */
+    private siftUp;
+}
+export {};
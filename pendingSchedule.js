@@ -0,0 +1,137 @@
+function isDueBefore(scheduledKey, otherScheduledKey) {
+    return (scheduledKey.dueAt < otherScheduledKey.dueAt ||
+        (scheduledKey.dueAt === otherScheduledKey.dueAt &&
+            scheduledKey.sequence < otherScheduledKey.sequence));
+}
+/**
+ * An indexed min-heap of keys, ordered by due time.
+ * Keys with the same due time are ordered by when they were scheduled.
+ * Keys can be added, rescheduled and removed in O(log n) time,
+ * and the key that is due first is found in O(1) time.
+ */
+export class PendingSchedule {
+    heap = [];
+    heapIndexes = new Map();
+    sequence = 0;
+    /**
+     * Removes all keys.
+     */
+    clear() {
+        this.heap.length = 0;
+        this.heapIndexes.clear();
+    }
+    /**
+     * Removes a key.
+     * @param key - The key to remove.
+     * @returns `true` if the key was scheduled, `false` otherwise.
+     */
+    delete(key) {
+        const heapIndex = this.heapIndexes.get(key);
+        if (heapIndex === undefined) {
+            return false;
+        }
+        this.heapIndexes.delete(key);
+        const lastScheduledKey = this.heap.pop();
+        if (heapIndex < this.heap.length) {
+            this.place(lastScheduledKey, heapIndex);
+            this.siftDown(this.siftUp(heapIndex));
+        }
+        return true;
+    }
+    /**
+     * Gets the key that is due first, without removing it.
+     * @returns The key and its due time, or `undefined` if no keys are scheduled.
+     */
+    peek() {
+        return this.heap.at(0);
+    }
+    /**
+     * Adds a key, or reschedules it if it is already scheduled.
+     * @param key - The key.
+     * @param dueAt - The time the key is due, in milliseconds since the epoch.
+     */
+    set(key, dueAt) {
+        const heapIndex = this.heapIndexes.get(key);
+        this.sequence += 1;
+        if (heapIndex === undefined) {
+            this.place({ dueAt, key, sequence: this.sequence }, this.heap.length);
+            this.siftUp(this.heap.length - 1);
+            return;
+        }
+        // eslint-disable-next-line security/detect-object-injection
+        this.heap[heapIndex].dueAt = dueAt;
+        // eslint-disable-next-line security/detect-object-injection
+        this.heap[heapIndex].sequence = this.sequence;
+        this.siftDown(this.siftUp(heapIndex));
+    }
+    /**
+     * Gets the number of scheduled keys.
+     * @returns The number of scheduled keys.
+     */
+    size() {
+        return this.heap.length;
+    }
+    place(scheduledKey, heapIndex) {
+        // eslint-disable-next-line security/detect-object-injection
+        this.heap[heapIndex] = scheduledKey;
+        this.heapIndexes.set(scheduledKey.key, heapIndex);
+    }
+    /**
+     * Moves a key down the heap until neither of its children is due before it.
+     * @param heapIndex - The current index of the key.
+     * @returns The new index of the key.
+     */
+    siftDown(heapIndex) {
+        // eslint-disable-next-line security/detect-object-injection
+        const scheduledKey = this.heap[heapIndex];
+        let currentIndex = heapIndex;
+        while (true) {
+            const leftIndex = currentIndex * 2 + 1;
+            const rightIndex = leftIndex + 1;
+            let earliestIndex = currentIndex;
+            let earliestScheduledKey = scheduledKey;
+            if (leftIndex < this.heap.length &&
+                // eslint-disable-next-line security/detect-object-injection
+                isDueBefore(this.heap[leftIndex], earliestScheduledKey)) {
+                earliestIndex = leftIndex;
+                // eslint-disable-next-line security/detect-object-injection
+                earliestScheduledKey = this.heap[leftIndex];
+            }
+            if (rightIndex < this.heap.length &&
+                // eslint-disable-next-line security/detect-object-injection
+                isDueBefore(this.heap[rightIndex], earliestScheduledKey)) {
+                earliestIndex = rightIndex;
+            }
+            if (earliestIndex === currentIndex) {
+                break;
+            }
+            // eslint-disable-next-line security/detect-object-injection
+            this.place(this.heap[earliestIndex], currentIndex);
+            currentIndex = earliestIndex;
+        }
+        this.place(scheduledKey, currentIndex);
+        return currentIndex;
+    }
+    /**
+     * Moves a key up the heap until its parent is due before it.
+     * @param heapIndex - The current index of the key.
+     * @returns The new index of the key.
+     */
+    siftUp(heapIndex) {
+        // eslint-disable-next-line security/detect-object-injection
+        const scheduledKey = this.heap[heapIndex];
+        let currentIndex = heapIndex;
+        while (currentIndex > 0) {
+            const parentIndex = Math.floor((currentIndex - 1) / 2);
+            // eslint-disable-next-line security/detect-object-injection
+            if (!isDueBefore(scheduledKey, this.heap[parentIndex])) {
+                break;
+            }
+            // eslint-disable-next-line security/detect-object-injection
+            this.place(this.heap[parentIndex], currentIndex);
+            currentIndex = parentIndex;
+        }
+        this.place(scheduledKey, currentIndex);
+        return currentIndex;
+    }
+}
@@ -0,0 +1,190 @@
+interface ScheduledKey {
+  dueAt: number
+  key: string
+
+  /**
+   * Orders keys with the same due time by when they were scheduled.
+   */
+  sequence: number
+}
+
+function isDueBefore(
+  scheduledKey: ScheduledKey,
+  otherScheduledKey: ScheduledKey
+): boolean {
+  return (
+    scheduledKey.dueAt < otherScheduledKey.dueAt ||
+    (scheduledKey.dueAt === otherScheduledKey.dueAt &&
+      scheduledKey.sequence < otherScheduledKey.sequence)
+  )
+}
+
+/**
+ * An indexed min-heap of keys, ordered by due time.
+ * Keys with the same due time are ordered by when they were scheduled.
+ * Keys can be added, rescheduled and removed in O(log n) time,
+ * and the key that is due first is found in O(1) time.
+ */
+export class PendingSchedule {
+  private readonly heap: ScheduledKey[] = []
+
+  private readonly heapIndexes = new Map<string, number>()
+
+  private sequence = 0
+
+  /**
+   * Removes all keys.
+   */
+  public clear(): void {
+    this.heap.length = 0
+    this.heapIndexes.clear()
+  }
+
+  /**
+   * Removes a key.
+   * @param key - The key to remove.
+   * @returns `true` if the key was scheduled, `false` otherwise.
+   */
+  public delete(key: string): boolean {
+    const heapIndex = this.heapIndexes.get(key)
+
+    if (heapIndex === undefined) {
+      return false
+    }
+
+    this.heapIndexes.delete(key)
+
+    const lastScheduledKey = this.heap.pop() as ScheduledKey
+
+    if (heapIndex < this.heap.length) {
+      this.place(lastScheduledKey, heapIndex)
+      this.siftDown(this.siftUp(heapIndex))
+    }
+
+    return true
+  }
+
+  /**
+   * Gets the key that is due first, without removing it.
+   * @returns The key and its due time, or `undefined` if no keys are scheduled.
+   */
+  public peek(): ScheduledKey | undefined {
+    return this.heap.at(0)
+  }
+
+  /**
+   * Adds a key, or reschedules it if it is already scheduled.
+   * @param key - The key.
+   * @param dueAt - The time the key is due, in milliseconds since the epoch.
+   */
+  public set(key: string, dueAt: number): void {
+    const heapIndex = this.heapIndexes.get(key)
+
+    this.sequence += 1
+
+    if (heapIndex === undefined) {
+      this.place({ dueAt, key, sequence: this.sequence }, this.heap.length)
+      this.siftUp(this.heap.length - 1)
+      return
+    }
+
+    // eslint-disable-next-line security/detect-object-injection
+    this.heap[heapIndex].dueAt = dueAt
+    // eslint-disable-next-line security/detect-object-injection
+    this.heap[heapIndex].sequence = this.sequence
+    this.siftDown(this.siftUp(heapIndex))
+  }
+
+  /**
+   * Gets the number of scheduled keys.
+   * @returns The number of scheduled keys.
+   */
+  public size(): number {
+    return this.heap.length
+  }
+
+  private place(scheduledKey: ScheduledKey, heapIndex: number): void {
+    // eslint-disable-next-line security/detect-object-injection
+    this.heap[heapIndex] = scheduledKey
+    this.heapIndexes.set(scheduledKey.key, heapIndex)
+  }
+
+  /**
+   * Moves a key down the heap until neither of its children is due before it.
+   * @param heapIndex - The current index of the key.
+   * @returns The new index of the key.
+   */
+  private siftDown(heapIndex: number): number {
+    // eslint-disable-next-line security/detect-object-injection
+    const scheduledKey = this.heap[heapIndex]
+
+    let currentIndex = heapIndex
+
+    while (true) {
+      const leftIndex = currentIndex * 2 + 1
+      const rightIndex = leftIndex + 1
+
+      let earliestIndex = currentIndex
+      let earliestScheduledKey = scheduledKey
+
+      if (
+        leftIndex < this.heap.length &&
+        // eslint-disable-next-line security/detect-object-injection
+        isDueBefore(this.heap[leftIndex], earliestScheduledKey)
+      ) {
+        earliestIndex = leftIndex
+        // eslint-disable-next-line security/detect-object-injection
+        earliestScheduledKey = this.heap[leftIndex]
+      }
+
+      if (
+        rightIndex < this.heap.length &&
+        // eslint-disable-next-line security/detect-object-injection
+        isDueBefore(this.heap[rightIndex], earliestScheduledKey)
+      ) {
+        earliestIndex = rightIndex
+      }
+
+      if (earliestIndex === currentIndex) {
+        break
+      }
+
+      // eslint-disable-next-line security/detect-object-injection
+      this.place(this.heap[earliestIndex], currentIndex)
+      currentIndex = earliestIndex
+    }
+
+    this.place(scheduledKey, currentIndex)
+
+    return currentIndex
+  }
+
+  /**
+   * Moves a key up the heap until its parent is due before it.
+   * @param heapIndex - The current index of the key.
+   * @returns The new index of the key.
+   */
+  private siftUp(heapIndex: number): number {
+    // eslint-disable-next-line security/detect-object-injection
+    const scheduledKey = this.heap[heapIndex]
+
+    let currentIndex = heapIndex
+
+    while (currentIndex > 0) {
+      const parentIndex = Math.floor((currentIndex - 1) / 2)
+
+      // eslint-disable-next-line security/detect-object-injection
+      if (!isDueBefore(scheduledKey, this.heap[parentIndex])) {
+        break
+      }
+
+      // eslint-disable-next-line security/detect-object-injection
+      this.place(this.heap[parentIndex], currentIndex)
+      currentIndex = parentIndex
+    }
+
+    this.place(scheduledKey, currentIndex)
+
+    return currentIndex
+  }
+}
@@ -0,0 +1,129 @@
+export type ProcessHandler<T> = (entry: T) => Promise<void> | void;
+export interface ProcessOptions {
+    /**
+     * The delay in milliseconds before a failed entry is retried,
+     * or a function that returns the delay for a given attempt number (starting at 1).
+     * Defaults to the enqueue delay of the queue.
+     */
+    backoff?: number | ((attempt: number) => number);
+    /**
+     * The maximum number of entries handled at the same time.
+     * Defaults to 1.
+     */
+    concurrency?: number;
+    /**
+     * The number of times a failed entry is retried before it is moved to the dead-letter store.
+     * Defaults to 0.
+     */
+    retries?: number;
+}
+/**
+ * The result of re-enqueuing a failed entry.
+ * - `dropped` - The entry could not be re-enqueued.
+ * - `merged` - A newer entry with the same key was already waiting, and the entry was merged into it.
+ * - `retried` - The entry was re-enqueued.
+ */
+export type RetryResult = 'dropped' | 'merged' | 'retried';
+export interface ProcessStopOptions {
+    /**
+     * When `true`, entries already in the queue are processed before stopping.
+     */
+    drain?: boolean;
+}
+/**
+ * The connection between a processor and the queue it processes.
+ */
+export interface ProcessorSource<T> {
+    /**
+     * Parks an entry that has exhausted its retries.
+     * @param entry - The entry.
+     * @param errors - The errors from each failed attempt.
+     */
+    abandonEntry: (entry: T, errors: unknown[]) => void;
+    /**
+     * Marks an entry as no longer in flight.
+     * @param entryKey - The key of the entry.
+     */
+    completeEntry: (entryKey: string) => void;
+    /**
+     * Re-enqueues an entry that failed.
+     * @param entry - The entry to retry.
+     * @param delay - The retry delay in milliseconds, or `undefined` for the default delay.
+     * @returns Whether the entry was re-enqueued, merged into a newer entry, or dropped.
+     */
+    retryEntry: (entry: T, delay: number | undefined) => RetryResult;
+    /**
+     * Registers a callback that is called when entries may be ready to process.
+     * @param callback - The callback.
+     * @returns A function that unregisters the callback.
+     */
+    subscribe: (callback: () => void) => () => void;
+    /**
+     * Removes the next entry that is not already in flight from the queue, and marks it as in flight.
+     * @returns The entry and its key, or `undefined` if there is no entry to process.
+     */
+    takeEntry: () => {
+        key: string;
+        value: T;
+    } | undefined;
+}
+/**
+ * Processes entries from a queue using an async handler,
+ * with limited concurrency and retries.
+ */
+export declare class QueueProcessor<T> {
+    private activeCount;
+    private readonly attemptErrors;
+    private readonly backoff;
+    private readonly concurrency;
+    private readonly handler;
+    private paused;
+    private readonly retries;
+    private readonly source;
+    private stopState;
+    private readonly unsubscribe;
+    /**
+     * Creates a new QueueProcessor, and starts processing.
+     * @param source - The queue connection.
+     * @param handler - The function that handles each entry.
+     * @param options - Processing options.
+     */
+    constructor(source: ProcessorSource<T>, handler: ProcessHandler<T>, options?: ProcessOptions);
+    /**
+     * Gets the number of entries currently being handled.
+     * @returns The number of entries in flight.
+     */
+    inFlightCount(): number;
+    /**
+     * Checks if processing is paused.
+     * @returns `true` if processing is paused.
+     */
+    isPaused(): boolean;
+    /**
+     * Pauses processing. Entries already being handled are allowed to finish.
+     */
+    pause(): void;
+    /**
+     * Resumes processing after a pause.
+     */
+    resume(): void;
+    /**
+     * Stops processing.
+     * @param options - Stop options.
+     * @param options.drain - When `true`, entries already in the queue are processed before stopping.
+     * @returns A promise that resolves when all entries being handled have finished.
+     */
+    stop(options?: ProcessStopOptions): Promise<void>;
+    private getRetryDelay;
+    private handleEntry;
+    private pump;
+    /**
+     * Re-enqueues an entry that failed.
+     * An error thrown while re-enqueuing, like a `QuotaExceededError`, is added to the errors.
+     * @param entryKey - The key of the entry.
+     * @param entry - The entry.
+     * @param errors - The errors from each failed attempt.
+     * @returns Whether the entry was re-enqueued, merged into a newer entry, or should be abandoned.
+     */
+    private retryEntry;
+}
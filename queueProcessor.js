@@ -0,0 +1,166 @@
+import Debug from 'debug';
+import { DEBUG_NAMESPACE } from './debug.config.js';
+const debug = Debug(`${DEBUG_NAMESPACE}:queueProcessor`);
+/**
+ * Processes entries from a queue using an async handler,
+ * with limited concurrency and retries.
+ */
+export class QueueProcessor {
+    activeCount = 0;
+    attemptErrors = new Map();
+    backoff;
+    concurrency;
+    handler;
+    paused = false;
+    retries;
+    source;
+    stopState;
+    unsubscribe;
+    /**
+     * Creates a new QueueProcessor, and starts processing.
+     * @param source - The queue connection.
+     * @param handler - The function that handles each entry.
+     * @param options - Processing options.
+     */
+    constructor(source, handler, options = {}) {
+        this.source = source;
+        this.handler = handler;
+        this.concurrency = options.concurrency ?? 1;
+        this.retries = options.retries ?? 0;
+        this.backoff = options.backoff;
+        if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+            throw new RangeError(`concurrency must be a positive integer, received ${this.concurrency}.`);
+        }
+        if (!Number.isInteger(this.retries) || this.retries < 0) {
+            throw new RangeError(`retries must be a non-negative integer, received ${this.retries}.`);
+        }
+        this.unsubscribe = source.subscribe(() => {
+            this.pump();
+        });
+        this.pump();
+    }
+    /**
+     * Gets the number of entries currently being handled.
+     * @returns The number of entries in flight.
+     */
+    inFlightCount() {
+        return this.activeCount;
+    }
+    /**
+     * Checks if processing is paused.
+     * @returns `true` if processing is paused.
+     */
+    isPaused() {
+        return this.paused;
+    }
+    /**
+     * Pauses processing. Entries already being handled are allowed to finish.
+     */
+    pause() {
+        this.paused = true;
+    }
+    /**
+     * Resumes processing after a pause.
+     */
+    resume() {
+        this.paused = false;
+        this.pump();
+    }
+    /**
+     * Stops processing.
+     * @param options - Stop options.
+     * @param options.drain - When `true`, entries already in the queue are processed before stopping.
+     * @returns A promise that resolves when all entries being handled have finished.
+     */
+    async stop(options = {}) {
+        if (this.stopState === undefined) {
+            let resolveStop = () => { };
+            // eslint-disable-next-line promise/avoid-new
+            const promise = new Promise((resolve) => {
+                resolveStop = resolve;
+            });
+            this.stopState = {
+                drain: options.drain ?? false,
+                promise,
+                resolve: resolveStop
+            };
+            this.paused = false;
+            this.pump();
+        }
+        await this.stopState.promise;
+    }
+    getRetryDelay(attempt) {
+        return typeof this.backoff === 'function'
+            ? this.backoff(attempt)
+            : this.backoff;
+    }
+    async handleEntry(entryKey, entry) {
+        try {
+            await this.handler(entry);
+            this.attemptErrors.delete(entryKey);
+        }
+        catch (error) {
+            const errors = [...(this.attemptErrors.get(entryKey) ?? []), error];
+            const attempt = errors.length;
+            const retryResult = attempt <= this.retries
+                ? this.retryEntry(entryKey, entry, errors)
+                : 'dropped';
+            if (retryResult === 'retried') {
+                debug(`Handler failed, retrying entry (attempt ${attempt}): ${entryKey}`);
+                this.attemptErrors.set(entryKey, errors);
+            }
+            else if (retryResult === 'merged') {
+                // The newer entry is handled as a new entry, with its own attempts.
+                debug(`Handler failed, merged into a newer entry: ${entryKey}`);
+                this.attemptErrors.delete(entryKey);
+            }
+            else {
+                debug(`Handler failed, abandoning entry: ${entryKey}`);
+                this.attemptErrors.delete(entryKey);
+                this.source.abandonEntry(entry, errors);
+            }
+        }
+        finally {
+            this.activeCount -= 1;
+            this.source.completeEntry(entryKey);
+            this.pump();
+        }
+    }
+    pump() {
+        const canTakeEntries = !this.paused && (this.stopState === undefined || this.stopState.drain);
+        while (canTakeEntries && this.activeCount < this.concurrency) {
+            const takenEntry = this.source.takeEntry();
+            if (takenEntry === undefined) {
+                break;
+            }
+            this.activeCount += 1;
+            void this.handleEntry(takenEntry.key, takenEntry.value);
+        }
+        if (this.stopState !== undefined && this.activeCount === 0) {
+            this.unsubscribe();
+            this.stopState.resolve();
+        }
+    }
+    /**
+     * Re-enqueues an entry that failed.
+     * An error thrown while re-enqueuing, like a `QuotaExceededError`, is added to the errors.
+     * @param entryKey - The key of the entry.
+     * @param entry - The entry.
+     * @param errors - The errors from each failed attempt.
+     * @returns Whether the entry was re-enqueued, merged into a newer entry, or should be abandoned.
+     */
+    retryEntry(entryKey, entry, errors) {
+        try {
+            const retryResult = this.source.retryEntry(entry, this.getRetryDelay(errors.length));
+            if (retryResult === 'dropped') {
+                debug(`Retry was dropped: ${entryKey}`);
+            }
+            return retryResult;
+        }
+        catch (error) {
+            debug(`Retry failed: ${entryKey}`);
+            errors.push(error);
+        }
+        return 'dropped';
+    }
+}
@@ -0,0 +1,303 @@
+import Debug from 'debug'
+
+import { DEBUG_NAMESPACE } from './debug.config.js'
+
+const debug = Debug(`${DEBUG_NAMESPACE}:queueProcessor`)
+
+export type ProcessHandler<T> = (entry: T) => Promise<void> | void
+
+export interface ProcessOptions {
+  /**
+   * The delay in milliseconds before a failed entry is retried,
+   * or a function that returns the delay for a given attempt number (starting at 1).
+   * Defaults to the enqueue delay of the queue.
+   */
+  backoff?: number | ((attempt: number) => number)
+
+  /**
+   * The maximum number of entries handled at the same time.
+   * Defaults to 1.
+   */
+  concurrency?: number
+
+  /**
+   * The number of times a failed entry is retried before it is moved to the dead-letter store.
+   * Defaults to 0.
+   */
+  retries?: number
+}
+
+/**
+ * The result of re-enqueuing a failed entry.
+ * - `dropped` - The entry could not be re-enqueued.
+ * - `merged` - A newer entry with the same key was already waiting, and the entry was merged into it.
+ * - `retried` - The entry was re-enqueued.
+ */
+export type RetryResult = 'dropped' | 'merged' | 'retried'
+
+export interface ProcessStopOptions {
+  /**
+   * When `true`, entries already in the queue are processed before stopping.
+   */
+  drain?: boolean
+}
+
+/**
+ * The connection between a processor and the queue it processes.
+ */
+export interface ProcessorSource<T> {
+  /**
+   * Parks an entry that has exhausted its retries.
+   * @param entry - The entry.
+   * @param errors - The errors from each failed attempt.
+   */
+  abandonEntry: (entry: T, errors: unknown[]) => void
+
+  /**
+   * Marks an entry as no longer in flight.
+   * @param entryKey - The key of the entry.
+   */
+  completeEntry: (entryKey: string) => void
+
+  /**
+   * Re-enqueues an entry that failed.
+   * @param entry - The entry to retry.
+   * @param delay - The retry delay in milliseconds, or `undefined` for the default delay.
+   * @returns Whether the entry was re-enqueued, merged into a newer entry, or dropped.
+   */
+  retryEntry: (entry: T, delay: number | undefined) => RetryResult
+
+  /**
+   * Registers a callback that is called when entries may be ready to process.
+   * @param callback - The callback.
+   * @returns A function that unregisters the callback.
+   */
+  subscribe: (callback: () => void) => () => void
+
+  /**
+   * Removes the next entry that is not already in flight from the queue, and marks it as in flight.
+   * @returns The entry and its key, or `undefined` if there is no entry to process.
+   */
+  takeEntry: () => { key: string; value: T } | undefined
+}
+
+/**
+ * Processes entries from a queue using an async handler,
+ * with limited concurrency and retries.
+ */
+export class QueueProcessor<T> {
+  private activeCount = 0
+
+  private readonly attemptErrors = new Map<string, unknown[]>()
+
+  private readonly backoff: ProcessOptions['backoff']
+
+  private readonly concurrency: number
+
+  private readonly handler: ProcessHandler<T>
+
+  private paused = false
+
+  private readonly retries: number
+
+  private readonly source: ProcessorSource<T>
+
+  private stopState:
+    | undefined
+    | {
+        drain: boolean
+        promise: Promise<void>
+        resolve: () => void
+      }
+
+  private readonly unsubscribe: () => void
+
+  /**
+   * Creates a new QueueProcessor, and starts processing.
+   * @param source - The queue connection.
+   * @param handler - The function that handles each entry.
+   * @param options - Processing options.
+   */
+  constructor(
+    source: ProcessorSource<T>,
+    handler: ProcessHandler<T>,
+    options: ProcessOptions = {}
+  ) {
+    this.source = source
+    this.handler = handler
+
+    this.concurrency = options.concurrency ?? 1
+    this.retries = options.retries ?? 0
+    this.backoff = options.backoff
+
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new RangeError(
+        `concurrency must be a positive integer, received ${this.concurrency}.`
+      )
+    }
+
+    if (!Number.isInteger(this.retries) || this.retries < 0) {
+      throw new RangeError(
+        `retries must be a non-negative integer, received ${this.retries}.`
+      )
+    }
+
+    this.unsubscribe = source.subscribe(() => {
+      this.pump()
+    })
+
+    this.pump()
+  }
+
+  /**
+   * Gets the number of entries currently being handled.
+   * @returns The number of entries in flight.
+   */
+  public inFlightCount(): number {
+    return this.activeCount
+  }
+
+  /**
+   * Checks if processing is paused.
+   * @returns `true` if processing is paused.
+   */
+  public isPaused(): boolean {
+    return this.paused
+  }
+
+  /**
+   * Pauses processing. Entries already being handled are allowed to finish.
+   */
+  public pause(): void {
+    this.paused = true
+  }
+
+  /**
+   * Resumes processing after a pause.
+   */
+  public resume(): void {
+    this.paused = false
+    this.pump()
+  }
+
+  /**
+   * Stops processing.
+   * @param options - Stop options.
+   * @param options.drain - When `true`, entries already in the queue are processed before stopping.
+   * @returns A promise that resolves when all entries being handled have finished.
+   */
+  public async stop(options: ProcessStopOptions = {}): Promise<void> {
+    if (this.stopState === undefined) {
+      let resolveStop: () => void = () => {}
+
+      // eslint-disable-next-line promise/avoid-new
+      const promise = new Promise<void>((resolve) => {
+        resolveStop = resolve
+      })
+
+      this.stopState = {
+        drain: options.drain ?? false,
+        promise,
+        resolve: resolveStop
+      }
+
+      this.paused = false
+      this.pump()
+    }
+
+    await this.stopState.promise
+  }
+
+  private getRetryDelay(attempt: number): number | undefined {
+    return typeof this.backoff === 'function'
+      ? this.backoff(attempt)
+      : this.backoff
+  }
+
+  private async handleEntry(entryKey: string, entry: T): Promise<void> {
+    try {
+      await this.handler(entry)
+      this.attemptErrors.delete(entryKey)
+    } catch (error) {
+      const errors = [...(this.attemptErrors.get(entryKey) ?? []), error]
+      const attempt = errors.length
+
+      const retryResult =
+        attempt <= this.retries
+          ? this.retryEntry(entryKey, entry, errors)
+          : 'dropped'
+
+      if (retryResult === 'retried') {
+        debug(
+          `Handler failed, retrying entry (attempt ${attempt}): ${entryKey}`
+        )
+        this.attemptErrors.set(entryKey, errors)
+      } else if (retryResult === 'merged') {
+        // The newer entry is handled as a new entry, with its own attempts.
+        debug(`Handler failed, merged into a newer entry: ${entryKey}`)
+        this.attemptErrors.delete(entryKey)
+      } else {
+        debug(`Handler failed, abandoning entry: ${entryKey}`)
+        this.attemptErrors.delete(entryKey)
+        this.source.abandonEntry(entry, errors)
+      }
+    } finally {
+      this.activeCount -= 1
+      this.source.completeEntry(entryKey)
+      this.pump()
+    }
+  }
+
+  private pump(): void {
+    const canTakeEntries =
+      !this.paused && (this.stopState === undefined || this.stopState.drain)
+
+    while (canTakeEntries && this.activeCount < this.concurrency) {
+      const takenEntry = this.source.takeEntry()
+
+      if (takenEntry === undefined) {
+        break
+      }
+
+      this.activeCount += 1
+      void this.handleEntry(takenEntry.key, takenEntry.value)
+    }
+
+    if (this.stopState !== undefined && this.activeCount === 0) {
+      this.unsubscribe()
+      this.stopState.resolve()
+    }
+  }
+
+  /**
+   * Re-enqueues an entry that failed.
+   * An error thrown while re-enqueuing, like a `QuotaExceededError`, is added to the errors.
+   * @param entryKey - The key of the entry.
+   * @param entry - The entry.
+   * @param errors - The errors from each failed attempt.
+   * @returns Whether the entry was re-enqueued, merged into a newer entry, or should be abandoned.
+   */
+  private retryEntry(
+    entryKey: string,
+    entry: T,
+    errors: unknown[]
+  ): RetryResult {
+    try {
+      const retryResult = this.source.retryEntry(
+        entry,
+        this.getRetryDelay(errors.length)
+      )
+
+      if (retryResult === 'dropped') {
+        debug(`Retry was dropped: ${entryKey}`)
+      }
+
+      return retryResult
+    } catch (error) {
+      debug(`Retry failed: ${entryKey}`)
+      errors.push(error)
+    }
+
+    return 'dropped'
+  }
+}
@@ -0,0 +1,31 @@
+import type { ReadyEntries, StoredQueueEntry } from './stores/types.js';
+/**
+ * Ready entries kept in memory, in one doubly linked list per priority, indexed by key,
+ * so adding, checking, updating and removing entries take constant time.
+ */
+export declare class MemoryReadyEntries<T> implements ReadyEntries<T> {
+    /**
+     * The lanes that have entries, highest priority first.
+     * Few distinct priorities are expected, so lanes are found with a linear search.
+     */
+    private readonly lanes;
+    private readonly nodes;
+    clear(): number;
+    delete(key: string): StoredQueueEntry<T> | undefined;
+    entries(): Array<StoredQueueEntry<T>>;
+    has(key: string): boolean;
+    peek(): StoredQueueEntry<T> | undefined;
+    push(entry: StoredQueueEntry<T>): boolean;
+    raisePriority(key: string, priority: number): StoredQueueEntry<T> | undefined;
+    shift(excludedKeys?: ReadonlySet<string>): StoredQueueEntry<T> | undefined;
+    shiftLowestPriority(): StoredQueueEntry<T> | undefined;
+    size(): number;
+    update(key: string, update: (value: T) => T): StoredQueueEntry<T> | undefined;
+    /**
+     * Finds the lane for a priority, adding it in order if it does not exist.
+     * @param priority - The priority.
+     * @returns The lane.
+     */
+    private getLane;
+    private unlink;
+}
@@ -0,0 +1,147 @@
+function toStoredEntry(node) {
+    return node.lane.priority === 0
+        ? { key: node.key, value: node.value }
+        : { key: node.key, priority: node.lane.priority, value: node.value };
+}
+/**
+ * Ready entries kept in memory, in one doubly linked list per priority, indexed by key,
+ * so adding, checking, updating and removing entries take constant time.
+ */
+export class MemoryReadyEntries {
+    /**
+     * The lanes that have entries, highest priority first.
+     * Few distinct priorities are expected, so lanes are found with a linear search.
+     */
+    lanes = [];
+    nodes = new Map();
+    clear() {
+        const clearedCount = this.nodes.size;
+        this.nodes.clear();
+        this.lanes.length = 0;
+        return clearedCount;
+    }
+    delete(key) {
+        const node = this.nodes.get(key);
+        if (node === undefined) {
+            return undefined;
+        }
+        this.unlink(node);
+        return toStoredEntry(node);
+    }
+    entries() {
+        const entries = [];
+        for (const lane of this.lanes) {
+            for (let node = lane.head; node !== undefined; node = node.next) {
+                entries.push(toStoredEntry(node));
+            }
+        }
+        return entries;
+    }
+    has(key) {
+        return this.nodes.has(key);
+    }
+    peek() {
+        const node = this.lanes.at(0)?.head;
+        return node === undefined ? undefined : toStoredEntry(node);
+    }
+    push(entry) {
+        if (this.nodes.has(entry.key)) {
+            return false;
+        }
+        const lane = this.getLane(entry.priority ?? 0);
+        const node = {
+            key: entry.key,
+            lane,
+            next: undefined,
+            previous: lane.tail,
+            value: entry.value
+        };
+        if (lane.tail === undefined) {
+            lane.head = node;
+        }
+        else {
+            lane.tail.next = node;
+        }
+        lane.tail = node;
+        this.nodes.set(entry.key, node);
+        return true;
+    }
+    raisePriority(key, priority) {
+        const node = this.nodes.get(key);
+        if (node === undefined || node.lane.priority >= priority) {
+            return undefined;
+        }
+        this.unlink(node);
+        this.push({ key, priority, value: node.value });
+        return { key, priority, value: node.value };
+    }
+    shift(excludedKeys) {
+        for (const lane of this.lanes) {
+            let node = lane.head;
+            while (node !== undefined && (excludedKeys?.has(node.key) ?? false)) {
+                node = node.next;
+            }
+            if (node !== undefined) {
+                this.unlink(node);
+                return toStoredEntry(node);
+            }
+        }
+        return undefined;
+    }
+    shiftLowestPriority() {
+        const node = this.lanes.at(-1)?.head;
+        if (node === undefined) {
+            return undefined;
+        }
+        this.unlink(node);
+        return toStoredEntry(node);
+    }
+    size() {
+        return this.nodes.size;
+    }
+    update(key, update) {
+        const node = this.nodes.get(key);
+        if (node === undefined) {
+            return undefined;
+        }
+        node.value = update(node.value);
+        return toStoredEntry(node);
+    }
+    /**
+     * Finds the lane for a priority, adding it in order if it does not exist.
+     * @param priority - The priority.
+     * @returns The lane.
+     */
+    getLane(priority) {
+        let laneIndex = 0;
+        while (laneIndex < this.lanes.length &&
+            this.lanes[laneIndex].priority > priority) {
+            laneIndex += 1;
+        }
+        let lane = this.lanes.at(laneIndex);
+        if (lane?.priority !== priority) {
+            lane = { head: undefined, priority, tail: undefined };
+            this.lanes.splice(laneIndex, 0, lane);
+        }
+        return lane;
+    }
+    unlink(node) {
+        const lane = node.lane;
+        if (node.previous === undefined) {
+            lane.head = node.next;
+        }
+        else {
+            node.previous.next = node.next;
+        }
+        if (node.next === undefined) {
+            lane.tail = node.previous;
+        }
+        else {
+            node.next.previous = node.previous;
+        }
+        if (lane.head === undefined) {
+            this.lanes.splice(this.lanes.indexOf(lane), 1);
+        }
+        this.nodes.delete(node.key);
+    }
+}
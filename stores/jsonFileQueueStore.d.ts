@@ -0,0 +1,35 @@
+import type { QueueStore, StoredCollection, StoredPendingEntry, StoredQueueEntry, StoredQueueState } from './types.js';
+/**
+ * A queue store that saves pending and queued entries to a JSON file.
+ * Changes are kept in memory and written in the background,
+ * with the changes made during a write combined into the next write.
+ * Entries must be serializable with `JSON.stringify`.
+ */
+export declare class JsonFileQueueStore<T> implements QueueStore<T> {
+    private readonly filePath;
+    private isWriteRequested;
+    private state;
+    private writeError;
+    private writePromise;
+    /**
+     * Creates a new JsonFileQueueStore.
+     * @param filePath - The path to the JSON file. The file is created when entries are first saved.
+     */
+    constructor(filePath: string);
+    /**
+     * Waits for the changes to be written to the JSON file.
+     * @throws The error from a failed write, since the last call.
+     */
+    flush(): Promise<void>;
+    load(): Promise<StoredQueueState<T>>;
+    remove(key: string, collection: StoredCollection): Promise<void>;
+    savePending(entry: StoredPendingEntry<T>): Promise<void>;
+    saveQueue(entry: StoredQueueEntry<T>): Promise<void>;
+    private loadState;
+    /**
+     * Requests a write of the state to the JSON file, without waiting for it.
+     * Writes requested while a write is in progress are combined into a single write.
+     */
+    private requestWrite;
+    private writeRequested;
+}
@@ -0,0 +1,114 @@
+import fs from 'node:fs/promises';
+import Debug from 'debug';
+import { DEBUG_NAMESPACE } from '../debug.config.js';
+const debug = Debug(`${DEBUG_NAMESPACE}:jsonFileQueueStore`);
+/**
+ * A queue store that saves pending and queued entries to a JSON file.
+ * Changes are kept in memory and written in the background,
+ * with the changes made during a write combined into the next write.
+ * Entries must be serializable with `JSON.stringify`.
+ */
+export class JsonFileQueueStore {
+    filePath;
+    isWriteRequested = false;
+    state;
+    writeError;
+    writePromise;
+    /**
+     * Creates a new JsonFileQueueStore.
+     * @param filePath - The path to the JSON file. The file is created when entries are first saved.
+     */
+    constructor(filePath) {
+        this.filePath = filePath;
+    }
+    /**
+     * Waits for the changes to be written to the JSON file.
+     * @throws The error from a failed write, since the last call.
+     */
+    async flush() {
+        while (this.writePromise !== undefined) {
+            await this.writePromise;
+        }
+        if (this.writeError !== undefined) {
+            const writeError = this.writeError;
+            this.writeError = undefined;
+            throw writeError;
+        }
+    }
+    async load() {
+        const state = await this.loadState();
+        return {
+            pending: [...state.pending.values()],
+            queue: [...state.queue.values()]
+        };
+    }
+    async remove(key, collection) {
+        const state = await this.loadState();
+        // eslint-disable-next-line security/detect-object-injection
+        if (state[collection].delete(key)) {
+            this.requestWrite();
+        }
+    }
+    async savePending(entry) {
+        const state = await this.loadState();
+        state.pending.set(entry.key, entry);
+        this.requestWrite();
+    }
+    async saveQueue(entry) {
+        const state = await this.loadState();
+        state.queue.set(entry.key, entry);
+        this.requestWrite();
+    }
+    async loadState() {
+        if (this.state !== undefined) {
+            return this.state;
+        }
+        let storedState = { pending: [], queue: [] };
+        try {
+            const fileContents = await fs.readFile(this.filePath, 'utf8');
+            storedState = JSON.parse(fileContents);
+        }
+        catch (error) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+            debug(`No queue file found, starting empty: ${this.filePath}`);
+        }
+        // Another call may have loaded the state while the file was being read.
+        this.state ??= {
+            pending: new Map(storedState.pending.map((pendingEntry) => [
+                pendingEntry.key,
+                pendingEntry
+            ])),
+            queue: new Map(storedState.queue.map((queueEntry) => [queueEntry.key, queueEntry]))
+        };
+        return this.state;
+    }
+    /**
+     * Requests a write of the state to the JSON file, without waiting for it.
+     * Writes requested while a write is in progress are combined into a single write.
+     */
+    requestWrite() {
+        this.isWriteRequested = true;
+        this.writePromise ??= this.writeRequested();
+    }
+    async writeRequested() {
+        try {
+            while (this.isWriteRequested) {
+                this.isWriteRequested = false;
+                const fileContents = JSON.stringify(await this.load());
+                const temporaryFilePath = `${this.filePath}.tmp`;
+                await fs.writeFile(temporaryFilePath, fileContents);
+                await fs.rename(temporaryFilePath, this.filePath);
+            }
+        }
+        catch (error) {
+            debug(`Error writing queue file: ${this.filePath}`);
+            // Reported by the next call to `flush`.
+            this.writeError = error;
+        }
+        finally {
+            this.writePromise = undefined;
+        }
+    }
+}
@@ -0,0 +1,168 @@
+import fs from 'node:fs/promises'
+
+import Debug from 'debug'
+
+import { DEBUG_NAMESPACE } from '../debug.config.js'
+
+import type {
+  QueueStore,
+  StoredCollection,
+  StoredPendingEntry,
+  StoredQueueEntry,
+  StoredQueueState
+} from './types.js'
+
+const debug = Debug(`${DEBUG_NAMESPACE}:jsonFileQueueStore`)
+
+/**
+ * A queue store that saves pending and queued entries to a JSON file.
+ * Changes are kept in memory and written in the background,
+ * with the changes made during a write combined into the next write.
+ * Entries must be serializable with `JSON.stringify`.
+ */
+export class JsonFileQueueStore<T> implements QueueStore<T> {
+  private readonly filePath: string
+
+  private isWriteRequested = false
+
+  private state:
+    | undefined
+    | {
+        pending: Map<string, StoredPendingEntry<T>>
+        queue: Map<string, StoredQueueEntry<T>>
+      }
+
+  private writeError: unknown
+
+  private writePromise: Promise<void> | undefined
+
+  /**
+   * Creates a new JsonFileQueueStore.
+   * @param filePath - The path to the JSON file. The file is created when entries are first saved.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  /**
+   * Waits for the changes to be written to the JSON file.
+   * @throws The error from a failed write, since the last call.
+   */
+  public async flush(): Promise<void> {
+    while (this.writePromise !== undefined) {
+      await this.writePromise
+    }
+
+    if (this.writeError !== undefined) {
+      const writeError = this.writeError
+      this.writeError = undefined
+
+      throw writeError
+    }
+  }
+
+  public async load(): Promise<StoredQueueState<T>> {
+    const state = await this.loadState()
+
+    return {
+      pending: [...state.pending.values()],
+      queue: [...state.queue.values()]
+    }
+  }
+
+  public async remove(
+    key: string,
+    collection: StoredCollection
+  ): Promise<void> {
+    const state = await this.loadState()
+
+    // eslint-disable-next-line security/detect-object-injection
+    if (state[collection].delete(key)) {
+      this.requestWrite()
+    }
+  }
+
+  public async savePending(entry: StoredPendingEntry<T>): Promise<void> {
+    const state = await this.loadState()
+
+    state.pending.set(entry.key, entry)
+
+    this.requestWrite()
+  }
+
+  public async saveQueue(entry: StoredQueueEntry<T>): Promise<void> {
+    const state = await this.loadState()
+
+    state.queue.set(entry.key, entry)
+
+    this.requestWrite()
+  }
+
+  private async loadState(): Promise<
+    NonNullable<JsonFileQueueStore<T>['state']>
+  > {
+    if (this.state !== undefined) {
+      return this.state
+    }
+
+    let storedState: StoredQueueState<T> = { pending: [], queue: [] }
+
+    try {
+      const fileContents = await fs.readFile(this.filePath, 'utf8')
+      storedState = JSON.parse(fileContents) as StoredQueueState<T>
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error
+      }
+
+      debug(`No queue file found, starting empty: ${this.filePath}`)
+    }
+
+    // Another call may have loaded the state while the file was being read.
+    this.state ??= {
+      pending: new Map(
+        storedState.pending.map((pendingEntry) => [
+          pendingEntry.key,
+          pendingEntry
+        ])
+      ),
+      queue: new Map(
+        storedState.queue.map((queueEntry) => [queueEntry.key, queueEntry])
+      )
+    }
+
+    return this.state
+  }
+
+  /**
+   * Requests a write of the state to the JSON file, without waiting for it.
+   * Writes requested while a write is in progress are combined into a single write.
+   */
+  private requestWrite(): void {
+    this.isWriteRequested = true
+
+    this.writePromise ??= this.writeRequested()
+  }
+
+  private async writeRequested(): Promise<void> {
+    try {
+      while (this.isWriteRequested) {
+        this.isWriteRequested = false
+
+        const fileContents = JSON.stringify(await this.load())
+
+        const temporaryFilePath = `${this.filePath}.tmp`
+
+        await fs.writeFile(temporaryFilePath, fileContents)
+        await fs.rename(temporaryFilePath, this.filePath)
+      }
+    } catch (error) {
+      debug(`Error writing queue file: ${this.filePath}`)
+
+      // Reported by the next call to `flush`.
+      this.writeError = error
+    } finally {
+      this.writePromise = undefined
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import type { QueueStore, ReadyEntries, StoredCollection, StoredPendingEntry, StoredQueueEntry, StoredQueueState } from './types.js';
+export interface SqliteQueueStoreOptions {
+    /**
+     * The time in milliseconds to wait for another process to release its lock on the database.
+     * Defaults to 5000.
+     */
+    busyTimeoutMilliseconds?: number;
+    /**
+     * The prefix of the table names, so several queues can share one database file.
+     * Defaults to `queue`.
+     */
+    tablePrefix?: string;
+}
+/**
+ * A queue store that saves pending and ready entries to a SQLite database,
+ * using the built-in `node:sqlite` module.
+ * Ready entries are read from and removed from the database directly,
+ * so queues in several processes can share the same file
+ * without the same entry being dequeued more than once.
+ * Pending entries belong to the store that saved them,
+ * and are only loaded by another store once their owner has stopped.
+ * Entries must be serializable with `JSON.stringify`.
+ */
+export declare class SqliteQueueStore<T> implements QueueStore<T> {
+    private readonly database;
+    private readonly owner;
+    private readonly readyTableName;
+    private readonly statements;
+    /**
+     * Creates a new SqliteQueueStore.
+     * @param filePath - The path to the SQLite database file. The file is created if it does not exist.
+     * @param options - Additional store options.
+     * @param options.busyTimeoutMilliseconds - The time to wait for another process to release its lock on the database.
+     * @param options.tablePrefix - The prefix of the table names.
+     */
+    constructor(filePath: string, options?: SqliteQueueStoreOptions);
+    /**
+     * Closes the database.
+     * Queues using the store should not be used after it is closed.
+     */
+    close(): void;
+    createReadyEntries(): ReadyEntries<T>;
+    /**
+     * Loads the stored pending entries of this store,
+     * after claiming the pending entries of stores that have stopped,
+     * so pending entries are never scheduled by two running stores.
+     * Ready entries are not loaded, as they are read from the database directly.
+     * @returns The stored pending entries.
+     */
+    load(): Promise<StoredQueueState<T>>;
+    remove(key: string, collection: StoredCollection): Promise<void>;
+    savePending(entry: StoredPendingEntry<T>): Promise<void>;
+    saveQueue(entry: StoredQueueEntry<T>): Promise<void>;
+}
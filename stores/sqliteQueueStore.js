@@ -0,0 +1,319 @@
+import { randomUUID } from 'node:crypto';
+import { DatabaseSync } from 'node:sqlite';
+import Debug from 'debug';
+import { DEBUG_NAMESPACE } from '../debug.config.js';
+const debug = Debug(`${DEBUG_NAMESPACE}:sqliteQueueStore`);
+const tablePrefixPattern = /^[A-Z_a-z]\w*$/;
+/**
+ * The owners of the stores that are open in this process.
+ */
+const openOwners = new Set();
+/**
+ * Runs a callback inside a transaction,
+ * taking the write lock up front so other processes cannot interleave their changes.
+ * @param database - The database.
+ * @param callback - The callback.
+ * @returns The value returned by the callback.
+ */
+function runTransaction(database, callback) {
+    database.exec('BEGIN IMMEDIATE');
+    try {
+        const result = callback();
+        database.exec('COMMIT');
+        return result;
+    }
+    catch (error) {
+        database.exec('ROLLBACK');
+        throw error;
+    }
+}
+/**
+ * Checks if the store that owns pending rows may still be running.
+ * Owners are made of the process ID and a random ID,
+ * so rows left by a process that ended, or by a store that was closed, can be claimed.
+ * @param owner - The owner of the pending rows.
+ * @returns `true` if the owner may still be running, `false` otherwise.
+ */
+function isOwnerActive(owner) {
+    if (openOwners.has(owner)) {
+        return true;
+    }
+    const processId = Number.parseInt(owner.split(':')[0], 10);
+    if (Number.isNaN(processId) || processId === process.pid) {
+        return false;
+    }
+    try {
+        // Signal 0 only checks that the process exists.
+        process.kill(processId, 0);
+        return true;
+    }
+    catch (error) {
+        return error.code === 'EPERM';
+    }
+}
+function parseReadyRow(row) {
+    const value = JSON.parse(row.value);
+    return row.priority === 0
+        ? { key: row.key, value }
+        : { key: row.key, priority: row.priority, value };
+}
+/**
+ * Ready entries kept in a SQLite table, shared by every queue using the same table.
+ */
+class SqliteReadyEntries {
+    database;
+    statements;
+    constructor(database, tableName) {
+        this.database = database;
+        this.statements = {
+            clear: database.prepare(`DELETE FROM ${tableName}`),
+            count: database.prepare(`SELECT COUNT(*) AS count FROM ${tableName}`),
+            delete: database.prepare(`DELETE FROM ${tableName} WHERE position = ?`),
+            deleteKey: database.prepare(`DELETE FROM ${tableName} WHERE key = ?
+          RETURNING position, key, value, priority`),
+            has: database.prepare(`SELECT 1 FROM ${tableName} WHERE key = ?`),
+            insert: database.prepare(`INSERT INTO ${tableName} (key, value, priority) VALUES (?, ?, ?)
+          ON CONFLICT (key) DO NOTHING`),
+            raisePriority: database.prepare(`INSERT INTO ${tableName} (key, value, priority) VALUES (?, ?, ?)`),
+            select: database.prepare(`SELECT position, key, value, priority FROM ${tableName} WHERE key = ?`),
+            selectAll: database.prepare(`SELECT position, key, value, priority FROM ${tableName}
+          ORDER BY priority DESC, position`),
+            selectFirst: database.prepare(`SELECT position, key, value, priority FROM ${tableName}
+          ORDER BY priority DESC, position LIMIT 1`),
+            selectFirstEligible: database.prepare(`SELECT position, key, value, priority FROM ${tableName}
+          WHERE key NOT IN (SELECT value FROM json_each(?))
+          ORDER BY priority DESC, position LIMIT 1`),
+            shiftLowestPriority: database.prepare(`DELETE FROM ${tableName} WHERE position = (
+            SELECT position FROM ${tableName} ORDER BY priority, position LIMIT 1
+          )
+          RETURNING position, key, value, priority`),
+            update: database.prepare(`UPDATE ${tableName} SET value = ? WHERE position = ?`)
+        };
+    }
+    clear() {
+        return Number(this.statements.clear.run().changes);
+    }
+    delete(key) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        const row = this.statements.deleteKey.get(key);
+        return row === undefined ? undefined : parseReadyRow(row);
+    }
+    entries() {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        const rows = this.statements.selectAll.all();
+        return rows.map((row) => parseReadyRow(row));
+    }
+    has(key) {
+        return this.statements.has.get(key) !== undefined;
+    }
+    peek() {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        const row = this.statements.selectFirst.get();
+        return row === undefined ? undefined : parseReadyRow(row);
+    }
+    push(entry) {
+        const result = this.statements.insert.run(entry.key, JSON.stringify(entry.value), entry.priority ?? 0);
+        return Number(result.changes) === 1;
+    }
+    raisePriority(key, priority) {
+        return runTransaction(this.database, () => {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+            const row = this.statements.select.get(key);
+            if (row === undefined || row.priority >= priority) {
+                return undefined;
+            }
+            // Re-inserting the row gives it a new position, at the end of its new priority.
+            this.statements.delete.run(row.position);
+            this.statements.raisePriority.run(key, row.value, priority);
+            return parseReadyRow({ ...row, priority });
+        });
+    }
+    shift(excludedKeys) {
+        return runTransaction(this.database, () => {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+            const row = (excludedKeys === undefined || excludedKeys.size === 0
+                ? this.statements.selectFirst.get()
+                : this.statements.selectFirstEligible.get(JSON.stringify([...excludedKeys])));
+            if (row === undefined) {
+                return undefined;
+            }
+            this.statements.delete.run(row.position);
+            return parseReadyRow(row);
+        });
+    }
+    shiftLowestPriority() {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        const row = this.statements.shiftLowestPriority.get();
+        return row === undefined ? undefined : parseReadyRow(row);
+    }
+    size() {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        const row = this.statements.count.get();
+        return row.count;
+    }
+    update(key, update) {
+        return runTransaction(this.database, () => {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+            const row = this.statements.select.get(key);
+            if (row === undefined) {
+                return undefined;
+            }
+            const value = update(parseReadyRow(row).value);
+            this.statements.update.run(JSON.stringify(value), row.position);
+            return row.priority === 0
+                ? { key, value }
+                : { key, priority: row.priority, value };
+        });
+    }
+}
+/**
+ * A queue store that saves pending and ready entries to a SQLite database,
+ * using the built-in `node:sqlite` module.
+ * Ready entries are read from and removed from the database directly,
+ * so queues in several processes can share the same file
+ * without the same entry being dequeued more than once.
+ * Pending entries belong to the store that saved them,
+ * and are only loaded by another store once their owner has stopped.
+ * Entries must be serializable with `JSON.stringify`.
+ */
+export class SqliteQueueStore {
+    database;
+    owner = `${process.pid}:${randomUUID()}`;
+    readyTableName;
+    statements;
+    /**
+     * Creates a new SqliteQueueStore.
+     * @param filePath - The path to the SQLite database file. The file is created if it does not exist.
+     * @param options - Additional store options.
+     * @param options.busyTimeoutMilliseconds - The time to wait for another process to release its lock on the database.
+     * @param options.tablePrefix - The prefix of the table names.
+     */
+    constructor(filePath, options = {}) {
+        const tablePrefix = options.tablePrefix ?? 'queue';
+        if (!tablePrefixPattern.test(tablePrefix)) {
+            throw new TypeError(`Invalid table prefix: ${tablePrefix}`);
+        }
+        const pendingTableName = `${tablePrefix}_pending`;
+        this.readyTableName = `${tablePrefix}_ready`;
+        this.database = new DatabaseSync(filePath);
+        this.database.exec(
+        // eslint-disable-next-line @typescript-eslint/no-magic-numbers
+        `PRAGMA busy_timeout = ${Math.max(0, Math.floor(options.busyTimeoutMilliseconds ?? 5000))}`);
+        this.database.exec('PRAGMA journal_mode = WAL');
+        this.database.exec(`
+      CREATE TABLE IF NOT EXISTS ${pendingTableName} (
+        key TEXT PRIMARY KEY NOT NULL,
+        value TEXT NOT NULL,
+        delay INTEGER NOT NULL,
+        dueAt INTEGER NOT NULL,
+        enqueuedAt INTEGER NOT NULL,
+        lastEnqueuedAt INTEGER NOT NULL,
+        lastResetAt INTEGER,
+        resetCount INTEGER NOT NULL DEFAULT 0,
+        owner TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS ${this.readyTableName} (
+        position INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT NOT NULL UNIQUE,
+        value TEXT NOT NULL,
+        priority REAL NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS ${this.readyTableName}_order
+        ON ${this.readyTableName} (priority DESC, position);`);
+        this.statements = {
+            claimPending: this.database.prepare(`UPDATE ${pendingTableName} SET owner = ? WHERE owner = ?`),
+            deletePending: this.database.prepare(`DELETE FROM ${pendingTableName} WHERE key = ? AND owner = ?`),
+            deleteReady: this.database.prepare(`DELETE FROM ${this.readyTableName} WHERE key = ?`),
+            savePending: this.database.prepare(`INSERT INTO ${pendingTableName}
+          (key, value, delay, dueAt, enqueuedAt, lastEnqueuedAt, lastResetAt, resetCount, owner)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (key) DO UPDATE SET
+            value = excluded.value,
+            delay = excluded.delay,
+            dueAt = excluded.dueAt,
+            enqueuedAt = excluded.enqueuedAt,
+            lastEnqueuedAt = excluded.lastEnqueuedAt,
+            lastResetAt = excluded.lastResetAt,
+            resetCount = excluded.resetCount,
+            owner = excluded.owner`),
+            saveReady: this.database.prepare(`INSERT INTO ${this.readyTableName} (key, value, priority) VALUES (?, ?, ?)
+          ON CONFLICT (key) DO UPDATE SET
+            value = excluded.value,
+            priority = excluded.priority`),
+            selectPending: this.database.prepare(`SELECT key, value, delay, dueAt, enqueuedAt, lastEnqueuedAt, lastResetAt, resetCount
+          FROM ${pendingTableName} WHERE owner = ? ORDER BY dueAt`),
+            selectPendingOwners: this.database.prepare(`SELECT DISTINCT owner FROM ${pendingTableName}`)
+        };
+        openOwners.add(this.owner);
+        debug(`Opened SQLite queue store: ${filePath}`);
+    }
+    /**
+     * Closes the database.
+     * Queues using the store should not be used after it is closed.
+     */
+    close() {
+        openOwners.delete(this.owner);
+        this.database.close();
+    }
+    createReadyEntries() {
+        return new SqliteReadyEntries(this.database, this.readyTableName);
+    }
+    /**
+     * Loads the stored pending entries of this store,
+     * after claiming the pending entries of stores that have stopped,
+     * so pending entries are never scheduled by two running stores.
+     * Ready entries are not loaded, as they are read from the database directly.
+     * @returns The stored pending entries.
+     */
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async load() {
+        const rows = runTransaction(this.database, () => {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+            const owners = this.statements.selectPendingOwners.all();
+            for (const { owner } of owners) {
+                if (owner !== this.owner && !isOwnerActive(owner)) {
+                    this.statements.claimPending.run(this.owner, owner);
+                }
+            }
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+            return this.statements.selectPending.all(this.owner);
+        });
+        return {
+            pending: rows.map((row) => {
+                const pendingEntry = {
+                    delay: row.delay,
+                    dueAt: row.dueAt,
+                    enqueuedAt: row.enqueuedAt,
+                    key: row.key,
+                    lastEnqueuedAt: row.lastEnqueuedAt,
+                    value: JSON.parse(row.value)
+                };
+                if (row.resetCount > 0) {
+                    pendingEntry.lastResetAt = row.lastResetAt ?? undefined;
+                    pendingEntry.resetCount = row.resetCount;
+                }
+                return pendingEntry;
+            }),
+            queue: []
+        };
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async remove(key, collection) {
+        if (collection === 'pending') {
+            this.statements.deletePending.run(key, this.owner);
+        }
+        else {
+            this.statements.deleteReady.run(key);
+        }
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async savePending(entry) {
+        this.statements.savePending.run(entry.key, JSON.stringify(entry.value), entry.delay, entry.dueAt, entry.enqueuedAt, entry.lastEnqueuedAt, entry.lastResetAt ?? null, entry.resetCount ?? 0, this.owner);
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async saveQueue(entry) {
+        this.statements.saveReady.run(entry.key, JSON.stringify(entry.value), entry.priority ?? 0);
+    }
+}
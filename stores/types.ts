@@ -0,0 +1,191 @@
+export interface StoredQueueEntry<T> {
+  /**
+   * The key of the entry.
+   */
+  key: string
+
+  /**
+   * The priority of a queued entry. Entries with higher priorities are dequeued first.
+   * Defaults to 0.
+   */
+  priority?: number
+
+  value: T
+}
+
+export interface StoredPendingEntry<T> extends StoredQueueEntry<T> {
+  /**
+   * The delay in milliseconds that was requested for the entry.
+   */
+  delay: number
+
+  /**
+   * The time the entry is due to be added to the queue, in milliseconds since the epoch.
+   */
+  dueAt: number
+
+  /**
+   * The time the entry was first enqueued, in milliseconds since the epoch.
+   */
+  enqueuedAt: number
+
+  /**
+   * The time the entry was most recently enqueued, in milliseconds since the epoch.
+   */
+  lastEnqueuedAt: number
+
+  /**
+   * The time the delay was last reset, in milliseconds since the epoch.
+   */
+  lastResetAt?: number
+
+  /**
+   * The number of times the delay was reset. Defaults to 0.
+   */
+  resetCount?: number
+}
+
+export interface StoredQueueState<T> {
+  pending: Array<StoredPendingEntry<T>>
+
+  /**
+   * The entries in the queue, in queue order.
+   */
+  queue: Array<StoredQueueEntry<T>>
+}
+
+export type StoredCollection = 'pending' | 'queue'
+
+/**
+ * A storage adapter that keeps pending and queued entries across restarts.
+ */
+export interface QueueStore<T> {
+  /**
+   * Creates ready entries that are kept directly in the store,
+   * so they can be shared by several queues using the same store.
+   * When provided, the queue uses them instead of keeping its ready entries in memory,
+   * `saveQueue` is not called, and `remove` is only called for pending entries.
+   * @returns The shared ready entries.
+   */
+  createReadyEntries?: () => ReadyEntries<T>
+
+  /**
+   * Waits for changes that the store writes in the background.
+   * Called by the queue's `flushStore`.
+   */
+  flush?: () => Promise<void>
+
+  /**
+   * Loads the stored pending and queued entries.
+   * @returns The stored entries.
+   */
+  load: () => Promise<StoredQueueState<T>>
+
+  /**
+   * Removes an entry.
+   * @param key - The key of the entry.
+   * @param collection - Whether to remove the pending entry, or the queued entry.
+   */
+  remove: (key: string, collection: StoredCollection) => Promise<void>
+
+  /**
+   * Adds or updates a pending entry.
+   * @param entry - The pending entry.
+   */
+  savePending: (entry: StoredPendingEntry<T>) => Promise<void>
+
+  /**
+   * Adds or updates a queued entry.
+   * New entries are added to the end of the queue.
+   * @param entry - The queued entry.
+   */
+  saveQueue: (entry: StoredQueueEntry<T>) => Promise<void>
+}
+
+/**
+ * The entries that are ready to be dequeued, in queue order:
+ * highest priority first, then in the order they were added.
+ * Each key appears at most once.
+ */
+export interface ReadyEntries<T> {
+  /**
+   * Removes all entries.
+   * @returns The number of entries that were removed.
+   */
+  clear: () => number
+
+  /**
+   * Removes an entry.
+   * @param key - The key of the entry.
+   * @returns The removed entry, or `undefined` if there is no entry with the key.
+   */
+  delete: (key: string) => StoredQueueEntry<T> | undefined
+
+  /**
+   * Lists the entries, in queue order.
+   * @returns The entries.
+   */
+  entries: () => Array<StoredQueueEntry<T>>
+
+  /**
+   * Checks if an entry with the key is ready.
+   * @param key - The key of the entry.
+   * @returns `true` if an entry with the key is ready, `false` otherwise.
+   */
+  has: (key: string) => boolean
+
+  /**
+   * Gets the first entry, without removing it.
+   * @returns The first entry, or `undefined` if there are no entries.
+   */
+  peek: () => StoredQueueEntry<T> | undefined
+
+  /**
+   * Adds an entry to the end of its priority, unless an entry with the same key is already ready.
+   * @param entry - The entry.
+   * @returns `true` if the entry was added, `false` if it was a duplicate.
+   */
+  push: (entry: StoredQueueEntry<T>) => boolean
+
+  /**
+   * Moves an entry to the end of a higher priority.
+   * @param key - The key of the entry.
+   * @param priority - The new priority.
+   * @returns The moved entry, or `undefined` if there is no entry with the key,
+   * or its priority is not lower.
+   */
+  raisePriority: (
+    key: string,
+    priority: number
+  ) => StoredQueueEntry<T> | undefined
+
+  /**
+   * Removes the first entry.
+   * @param excludedKeys - When provided, the first entry whose key is not excluded is removed instead.
+   * @returns The removed entry, or `undefined` if there is no entry to remove.
+   */
+  shift: (excludedKeys?: ReadonlySet<string>) => StoredQueueEntry<T> | undefined
+
+  /**
+   * Removes the first entry of the lowest priority, which is the last to be dequeued among the oldest entries.
+   * @returns The removed entry, or `undefined` if there are no entries.
+   */
+  shiftLowestPriority: () => StoredQueueEntry<T> | undefined
+
+  /**
+   * Gets the number of entries.
+   * @returns The number of entries.
+   */
+  size: () => number
+
+  /**
+   * Updates the value of an entry, keeping its position.
+   * @param key - The key of the entry.
+   * @param update - Returns the new value, given the current value.
+   * @returns The updated entry, or `undefined` if there is no entry with the key.
+   */
+  update: (
+    key: string,
+    update: (value: T) => T
+  ) => StoredQueueEntry<T> | undefined
+}
@@ -0,0 +1,138 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import Debug from 'debug'
+
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js'
+
+import { wait } from './utilities.js'
+
+Debug.enable(DEBUG_ENABLE_NAMESPACES)
+
+await describe('Unique Timed Entry Queue - Async Operations', async () => {
+  await it('does dequeueAsync() - entry already queued', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    queue.enqueue('entry', 0)
+
+    assert.strictEqual(await queue.dequeueAsync(), 'entry')
+    assert.strictEqual(queue.isEmpty(), true)
+  })
+
+  await it('does dequeueAsync() - waits for pending entry', async () => {
+    const queue = new UniqueTimedEntryQueue<string>(100)
+
+    queue.enqueue('entry')
+
+    const startTime = Date.now()
+
+    assert.strictEqual(await queue.dequeueAsync(), 'entry')
+    assert.ok(Date.now() - startTime >= 90)
+    assert.strictEqual(queue.isEmpty(), true)
+  })
+
+  await it('does dequeueAsync() - multiple waiters in order', async () => {
+    const queue = new UniqueTimedEntryQueue<string>(50)
+
+    const firstPromise = queue.dequeueAsync()
+    const secondPromise = queue.dequeueAsync()
+
+    queue.enqueueAll(['entry1', 'entry2', 'entry3'])
+
+    assert.deepStrictEqual(await Promise.all([firstPromise, secondPromise]), [
+      'entry1',
+      'entry2'
+    ])
+
+    await wait(20)
+
+    assert.deepStrictEqual(queue.toArray(), ['entry3'])
+  })
+
+  await it('does dequeueAsync() - abort signal', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    const abortController = new AbortController()
+
+    const abortedPromise = queue.dequeueAsync({
+      signal: abortController.signal
+    })
+
+    abortController.abort()
+
+    await assert.rejects(abortedPromise, { name: 'AbortError' })
+
+    queue.enqueue('entry', 0)
+
+    assert.deepStrictEqual(
+      queue.toArray(),
+      ['entry'],
+      'Entry should not be given to an aborted waiter'
+    )
+  })
+
+  await it('does dequeueAsync() - timeout', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    await assert.rejects(queue.dequeueAsync({ timeoutMs: 50 }), {
+      name: 'TimeoutError'
+    })
+
+    queue.enqueue('entry', 0)
+
+    assert.strictEqual(queue.size(), 1)
+  })
+
+  await it('does dequeueAsync() - long timeout', async () => {
+    const clock = new ManualClock()
+
+    const queue = new UniqueTimedEntryQueue<string>({ clock })
+
+    let isSettled = false
+
+    const dequeuePromise = queue.dequeueAsync({ timeoutMs: 3_000_000_000 })
+
+    dequeuePromise.catch(() => {
+      isSettled = true
+    })
+
+    clock.advanceBy(2_147_483_647)
+    await Promise.resolve()
+
+    assert.strictEqual(isSettled, false, 'Timer limit should not end the wait')
+
+    clock.advanceBy(3_000_000_000 - 2_147_483_647)
+
+    await assert.rejects(dequeuePromise, { name: 'TimeoutError' })
+  })
+
+  await it('throws a RangeError for invalid timeouts', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    for (const timeoutMs of [Number.NaN, -5, Number.POSITIVE_INFINITY]) {
+      await assert.rejects(queue.dequeueAsync({ timeoutMs }), RangeError)
+    }
+  })
+
+  await it('iterates with "for await"', async () => {
+    const queue = new UniqueTimedEntryQueue<string>(50)
+
+    queue.enqueueAll(['entry1', 'entry2'])
+
+    const entries: string[] = []
+
+    for await (const entry of queue) {
+      entries.push(entry)
+
+      if (entries.length === 2) {
+        break
+      }
+    }
+
+    assert.deepStrictEqual(entries, ['entry1', 'entry2'])
+  })
+})
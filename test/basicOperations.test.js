@@ -4,8 +4,7 @@ import assert from 'node:assert';
 import { afterEach, describe, it } from 'node:test';
 import Debug from 'debug';
 import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
-import UniqueTimedEntryQueue from '../index.js';
-import { wait } from './utilities.js';
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js';
 Debug.enable(DEBUG_ENABLE_NAMESPACES);
 await describe('Unique Timed Entry Queue - Basic Operations', async () => {
     let queue;
@@ -28,14 +27,17 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
         assert.strictEqual(queue.isEmpty(), false, 'Queue should not be empty after immediate enqueue');
         assert.strictEqual(queue.size(), 1, 'Queue size should be 1 after immediate enqueue');
     });
-    await it('does enqueue()', async () => {
-        queue = new UniqueTimedEntryQueue(1000);
+    await it('does enqueue()', () => {
+        const clock = new ManualClock();
+        queue = new UniqueTimedEntryQueue(1000, { clock });
         queue.enqueue('testEntry');
         assert.strictEqual(queue.isEmpty(), true, 'Queue should be empty');
         assert.strictEqual(queue.size(), 0, 'Queue size should be 0 after enqueue');
         assert.strictEqual(queue.pendingSize(), 1, 'There should be 1 pending entry after enqueue');
         assert.strictEqual(queue.hasPendingEntry('testEntry'), true, 'Pending entry should exist');
-        await wait(1100);
+        clock.advanceBy(999);
+        assert.strictEqual(queue.isEmpty(), true, 'Queue should still be empty');
+        clock.advanceBy(1);
         assert.strictEqual(queue.isEmpty(), false, 'Queue should not be empty');
         assert.strictEqual(queue.size(), 1, 'Queue size should be 1 after delay');
         assert.strictEqual(queue.pendingSize(), 0, 'There should be no pending entries after delay');
@@ -55,18 +57,19 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
         assert.strictEqual(queue.size(), 1, 'Queue size should be 1 after enqueue');
         assert.strictEqual(queue.pendingSize(), 0, 'There should be no pending entries after immediate enqueue');
     });
-    await it('does enqueue() - custom delay', async () => {
-        queue = new UniqueTimedEntryQueue(1000);
+    await it('does enqueue() - custom delay', () => {
+        const clock = new ManualClock();
+        queue = new UniqueTimedEntryQueue(1000, { clock });
         queue.enqueue('customDelayEntry', 2000);
         assert.strictEqual(queue.isEmpty(), true, 'Queue should be empty');
         assert.strictEqual(queue.size(), 0, 'Queue size should be 0 after enqueue');
         assert.strictEqual(queue.pendingSize(), 1, 'There should be 1 pending entry after enqueue');
         assert.strictEqual(queue.hasPendingEntry('customDelayEntry'), true, 'Pending entry should exist');
-        await wait(1100);
+        clock.advanceBy(1100);
         assert.strictEqual(queue.isEmpty(), true, 'Queue should still be empty');
         assert.strictEqual(queue.size(), 0, 'Queue size should still be 0');
         assert.strictEqual(queue.pendingSize(), 1, 'There should still be 1 pending entry');
-        await wait(1000);
+        clock.advanceBy(900);
         assert.strictEqual(queue.isEmpty(), false, 'Queue should not be empty');
         assert.strictEqual(queue.size(), 1, 'Queue size should be 1 after delay');
         assert.strictEqual(queue.pendingSize(), 0, 'There should be no pending entries after delay');
@@ -99,40 +102,99 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
         assert.strictEqual(queue.pendingSize(), 0);
         assert.strictEqual(queue.hasPending(), false);
     });
-    await it('does dequeue()', async () => {
-        queue = new UniqueTimedEntryQueue(1000); // 1 second delay
+    await it('does dequeue()', () => {
+        const clock = new ManualClock();
+        queue = new UniqueTimedEntryQueue(1000, { clock }); // 1 second delay
         queue.enqueue('testEntry');
-        await wait(1100);
+        clock.advanceBy(1000);
         const dequeuedEntry = queue.dequeue();
         assert.strictEqual(dequeuedEntry, 'testEntry');
     });
+    await it('does enqueue() - with a ManualClock', () => {
+        const clock = new ManualClock(1_000_000);
+        queue = new UniqueTimedEntryQueue(1000, { clock });
+        queue.enqueue('entry1', 300);
+        queue.enqueue('entry2', 100);
+        queue.enqueue('entry3', 200);
+        assert.strictEqual(clock.timerCount(), 1);
+        clock.advanceBy(250);
+        assert.strictEqual(clock.now(), 1_000_250);
+        assert.deepStrictEqual(queue.toArray(), ['entry2', 'entry3']);
+        assert.deepStrictEqual(queue.pendingToArray(true), [
+            {
+                dueAt: 1_000_300,
+                enqueuedAt: 1_000_000,
+                lastEnqueuedAt: 1_000_000,
+                value: 'entry1'
+            }
+        ]);
+        queue.clearPending();
+        assert.strictEqual(clock.timerCount(), 0);
+    });
     await it('does dequeue() - empty', () => {
         queue = new UniqueTimedEntryQueue();
         const dequeuedEntry = queue.dequeue();
         assert.strictEqual(dequeuedEntry, undefined);
     });
-    await it('does "enqueue() => dequeue()" sequence - number values', async () => {
-        const numberQueue = new UniqueTimedEntryQueue(500); // 0.5 second delay
+    await it('does "enqueue() => dequeue()" sequence - number values', () => {
+        const clock = new ManualClock();
+        const numberQueue = new UniqueTimedEntryQueue(500, { clock }); // 0.5 second delay
         const testValue = 42;
         numberQueue.enqueue(testValue);
         assert.strictEqual(numberQueue.size(), 0);
         assert.strictEqual(numberQueue.pendingSize(), 1);
-        await wait(600);
+        clock.advanceBy(500);
         assert.strictEqual(numberQueue.size(), 1);
         assert.strictEqual(numberQueue.pendingSize(), 0);
         const dequeuedValue = numberQueue.dequeue();
         assert.strictEqual(dequeuedValue, testValue);
     });
-    await it('does "enqueue() => dequeue()" sequence - object values', async () => {
-        const objectQueue = new UniqueTimedEntryQueue(500); // 0.5 second delay
+    await it('does "enqueue() => dequeue()" sequence - object values', () => {
+        const clock = new ManualClock();
+        const objectQueue = new UniqueTimedEntryQueue(500, { clock }); // 0.5 second delay
         const testValue = { id: 1, name: 'Test Object' };
         objectQueue.enqueue(testValue);
         assert.strictEqual(objectQueue.size(), 0);
         assert.strictEqual(objectQueue.pendingSize(), 1);
-        await wait(600);
+        clock.advanceBy(500);
         assert.strictEqual(objectQueue.size(), 1);
         assert.strictEqual(objectQueue.pendingSize(), 0);
         const dequeuedValue = objectQueue.dequeue();
         assert.deepStrictEqual(dequeuedValue, testValue);
     });
+    await it('does enqueue() - object values with getKey', () => {
+        const objectQueue = new UniqueTimedEntryQueue(1000, {
+            getKey: (workOrder) => workOrder.workOrderNumber
+        });
+        objectQueue.enqueue({
+            changedField: 'status',
+            workOrderNumber: 'WO.26.00001'
+        });
+        objectQueue.enqueue({
+            changedField: 'description',
+            workOrderNumber: 'WO.26.00001'
+        });
+        assert.strictEqual(objectQueue.pendingSize(), 1);
+        assert.strictEqual(objectQueue.hasPendingEntry({
+            changedField: 'any',
+            workOrderNumber: 'WO.26.00001'
+        }), true);
+        objectQueue.enqueuePending();
+        objectQueue.enqueue({ changedField: 'status', workOrderNumber: 'WO.26.00001' }, 0);
+        assert.strictEqual(objectQueue.size(), 1, 'Entries with the same key should only be queued once');
+        assert.deepStrictEqual(objectQueue.dequeue(), {
+            changedField: 'description',
+            workOrderNumber: 'WO.26.00001'
+        });
+        assert.strictEqual(objectQueue.clearPendingEntry({
+            changedField: 'status',
+            workOrderNumber: 'WO.26.00001'
+        }), false);
+    });
+    await it('does enqueue() - equal object values without getKey', () => {
+        const objectQueue = new UniqueTimedEntryQueue();
+        objectQueue.enqueue({ id: 1 }, 0);
+        objectQueue.enqueue({ id: 1 }, 0);
+        assert.strictEqual(objectQueue.size(), 1, 'Equal objects should only be queued once');
+    });
 });
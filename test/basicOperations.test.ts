@@ -7,9 +7,7 @@ import { afterEach, describe, it } from 'node:test'
 import Debug from 'debug'
 
 import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
-import UniqueTimedEntryQueue from '../index.js'
-
-import { wait } from './utilities.js'
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js'
 
 Debug.enable(DEBUG_ENABLE_NAMESPACES)
 
@@ -79,8 +77,9 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
     )
   })
 
-  await it('does enqueue()', async () => {
-    queue = new UniqueTimedEntryQueue<string>(1000)
+  await it('does enqueue()', () => {
+    const clock = new ManualClock()
+    queue = new UniqueTimedEntryQueue<string>(1000, { clock })
 
     queue.enqueue('testEntry')
 
@@ -100,7 +99,11 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
       'Pending entry should exist'
     )
 
-    await wait(1100)
+    clock.advanceBy(999)
+
+    assert.strictEqual(queue.isEmpty(), true, 'Queue should still be empty')
+
+    clock.advanceBy(1)
 
     assert.strictEqual(queue.isEmpty(), false, 'Queue should not be empty')
 
@@ -141,8 +144,9 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
     )
   })
 
-  await it('does enqueue() - custom delay', async () => {
-    queue = new UniqueTimedEntryQueue<string>(1000)
+  await it('does enqueue() - custom delay', () => {
+    const clock = new ManualClock()
+    queue = new UniqueTimedEntryQueue<string>(1000, { clock })
 
     queue.enqueue('customDelayEntry', 2000)
 
@@ -162,7 +166,7 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
       'Pending entry should exist'
     )
 
-    await wait(1100)
+    clock.advanceBy(1100)
 
     assert.strictEqual(queue.isEmpty(), true, 'Queue should still be empty')
 
@@ -174,7 +178,7 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
       'There should still be 1 pending entry'
     )
 
-    await wait(1000)
+    clock.advanceBy(900)
 
     assert.strictEqual(queue.isEmpty(), false, 'Queue should not be empty')
 
@@ -229,18 +233,47 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
     assert.strictEqual(queue.hasPending(), false)
   })
 
-  await it('does dequeue()', async () => {
-    queue = new UniqueTimedEntryQueue<string>(1000) // 1 second delay
+  await it('does dequeue()', () => {
+    const clock = new ManualClock()
+    queue = new UniqueTimedEntryQueue<string>(1000, { clock }) // 1 second delay
 
     queue.enqueue('testEntry')
 
-    await wait(1100)
+    clock.advanceBy(1000)
 
     const dequeuedEntry = queue.dequeue()
 
     assert.strictEqual(dequeuedEntry, 'testEntry')
   })
 
+  await it('does enqueue() - with a ManualClock', () => {
+    const clock = new ManualClock(1_000_000)
+    queue = new UniqueTimedEntryQueue<string>(1000, { clock })
+
+    queue.enqueue('entry1', 300)
+    queue.enqueue('entry2', 100)
+    queue.enqueue('entry3', 200)
+
+    assert.strictEqual(clock.timerCount(), 1)
+
+    clock.advanceBy(250)
+
+    assert.strictEqual(clock.now(), 1_000_250)
+    assert.deepStrictEqual(queue.toArray(), ['entry2', 'entry3'])
+    assert.deepStrictEqual(queue.pendingToArray(true), [
+      {
+        dueAt: 1_000_300,
+        enqueuedAt: 1_000_000,
+        lastEnqueuedAt: 1_000_000,
+        value: 'entry1'
+      }
+    ])
+
+    queue.clearPending()
+
+    assert.strictEqual(clock.timerCount(), 0)
+  })
+
   await it('does dequeue() - empty', () => {
     queue = new UniqueTimedEntryQueue<string>()
 
@@ -249,8 +282,9 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
     assert.strictEqual(dequeuedEntry, undefined)
   })
 
-  await it('does "enqueue() => dequeue()" sequence - number values', async () => {
-    const numberQueue = new UniqueTimedEntryQueue<number>(500) // 0.5 second delay
+  await it('does "enqueue() => dequeue()" sequence - number values', () => {
+    const clock = new ManualClock()
+    const numberQueue = new UniqueTimedEntryQueue<number>(500, { clock }) // 0.5 second delay
 
     const testValue = 42
 
@@ -259,7 +293,7 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
     assert.strictEqual(numberQueue.size(), 0)
     assert.strictEqual(numberQueue.pendingSize(), 1)
 
-    await wait(600)
+    clock.advanceBy(500)
 
     assert.strictEqual(numberQueue.size(), 1)
     assert.strictEqual(numberQueue.pendingSize(), 0)
@@ -269,13 +303,14 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
     assert.strictEqual(dequeuedValue, testValue)
   })
 
-  await it('does "enqueue() => dequeue()" sequence - object values', async () => {
+  await it('does "enqueue() => dequeue()" sequence - object values', () => {
     interface TestObject {
       id: number
       name: string
     }
 
-    const objectQueue = new UniqueTimedEntryQueue<TestObject>(500) // 0.5 second delay
+    const clock = new ManualClock()
+    const objectQueue = new UniqueTimedEntryQueue<TestObject>(500, { clock }) // 0.5 second delay
 
     const testValue: TestObject = { id: 1, name: 'Test Object' }
 
@@ -284,7 +319,7 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
     assert.strictEqual(objectQueue.size(), 0)
     assert.strictEqual(objectQueue.pendingSize(), 1)
 
-    await wait(600)
+    clock.advanceBy(500)
 
     assert.strictEqual(objectQueue.size(), 1)
     assert.strictEqual(objectQueue.pendingSize(), 0)
@@ -293,4 +328,74 @@ await describe('Unique Timed Entry Queue - Basic Operations', async () => {
 
     assert.deepStrictEqual(dequeuedValue, testValue)
   })
+
+  await it('does enqueue() - object values with getKey', () => {
+    interface WorkOrder {
+      changedField: string
+      workOrderNumber: string
+    }
+
+    const objectQueue = new UniqueTimedEntryQueue<WorkOrder>(1000, {
+      getKey: (workOrder) => workOrder.workOrderNumber
+    })
+
+    objectQueue.enqueue({
+      changedField: 'status',
+      workOrderNumber: 'WO.26.00001'
+    })
+
+    objectQueue.enqueue({
+      changedField: 'description',
+      workOrderNumber: 'WO.26.00001'
+    })
+
+    assert.strictEqual(objectQueue.pendingSize(), 1)
+
+    assert.strictEqual(
+      objectQueue.hasPendingEntry({
+        changedField: 'any',
+        workOrderNumber: 'WO.26.00001'
+      }),
+      true
+    )
+
+    objectQueue.enqueuePending()
+
+    objectQueue.enqueue(
+      { changedField: 'status', workOrderNumber: 'WO.26.00001' },
+      0
+    )
+
+    assert.strictEqual(
+      objectQueue.size(),
+      1,
+      'Entries with the same key should only be queued once'
+    )
+
+    assert.deepStrictEqual(objectQueue.dequeue(), {
+      changedField: 'description',
+      workOrderNumber: 'WO.26.00001'
+    })
+
+    assert.strictEqual(
+      objectQueue.clearPendingEntry({
+        changedField: 'status',
+        workOrderNumber: 'WO.26.00001'
+      }),
+      false
+    )
+  })
+
+  await it('does enqueue() - equal object values without getKey', () => {
+    const objectQueue = new UniqueTimedEntryQueue<{ id: number }>()
+
+    objectQueue.enqueue({ id: 1 }, 0)
+    objectQueue.enqueue({ id: 1 }, 0)
+
+    assert.strictEqual(
+      objectQueue.size(),
+      1,
+      'Equal objects should only be queued once'
+    )
+  })
 })
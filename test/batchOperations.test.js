@@ -0,0 +1,111 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+await describe('Unique Timed Entry Queue - Batch Operations', async () => {
+    await it('dispatches "batch" events when a batch is full', () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue({
+            batch: { maxSize: 2, maxWaitMilliseconds: 1000 },
+            clock,
+            enqueueDelayMilliseconds: 100
+        });
+        const batches = [];
+        queue.addEventListener('batch', (entries, details) => {
+            batches.push([entries, details.reason]);
+        });
+        queue.enqueueAll(['entry1', 'entry2', 'entry3']);
+        clock.advanceBy(100);
+        assert.deepStrictEqual(batches, [[['entry1', 'entry2'], 'size']]);
+        assert.deepStrictEqual(queue.toArray(), ['entry3']);
+        clock.advanceBy(999);
+        assert.strictEqual(batches.length, 1);
+        clock.advanceBy(1);
+        assert.deepStrictEqual(batches, [
+            [['entry1', 'entry2'], 'size'],
+            [['entry3'], 'window']
+        ]);
+        assert.ok(queue.isEmpty());
+        assert.strictEqual(clock.timerCount(), 0);
+    });
+    await it('dispatches all ready entries on enqueuePending()', () => {
+        const queue = new UniqueTimedEntryQueue({
+            batch: { maxSize: 2, maxWaitMilliseconds: 60_000 },
+            clock: new ManualClock(),
+            enqueueDelayMilliseconds: 100
+        });
+        const batches = [];
+        queue.addEventListener('batch', (entries, details) => {
+            batches.push([entries, details.reason]);
+        });
+        queue.enqueueAll([1, 2, 3, 4, 5]);
+        queue.enqueuePending();
+        assert.deepStrictEqual(batches, [
+            [[1, 2], 'size'],
+            [[3, 4], 'size'],
+            [[5], 'flush']
+        ]);
+    });
+    await it('does dequeueBatch() - when the batch is full', async () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue({
+            clock,
+            enqueueDelayMilliseconds: 100
+        });
+        queue.enqueueAll([1, 2, 3], 0);
+        assert.deepStrictEqual(await queue.dequeueBatch({ maxSize: 2, maxWaitMs: 1000 }), [1, 2]);
+        const batchPromise = queue.dequeueBatch({ maxSize: 2, maxWaitMs: 1000 });
+        queue.enqueue(4);
+        clock.advanceBy(100);
+        assert.deepStrictEqual(await batchPromise, [3, 4]);
+    });
+    await it('does dequeueBatch() - when the window passes', async () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue({
+            clock,
+            enqueueDelayMilliseconds: 100
+        });
+        let batch;
+        const batchPromise = queue
+            .dequeueBatch({ maxSize: 10, maxWaitMs: 500 })
+            .then((entries) => {
+            batch = entries;
+        });
+        clock.advanceBy(1000);
+        queue.enqueueAll([1, 2]);
+        clock.advanceBy(100);
+        queue.enqueue(3, 1000);
+        clock.advanceBy(499);
+        await Promise.resolve();
+        assert.strictEqual(batch, undefined);
+        clock.advanceBy(1);
+        await batchPromise;
+        assert.deepStrictEqual(batch, [1, 2]);
+        assert.ok(queue.hasPendingEntry(3));
+    });
+    await it('cancels dequeueBatch()', async () => {
+        const queue = new UniqueTimedEntryQueue(100);
+        const controller = new AbortController();
+        const abortedBatch = queue.dequeueBatch({
+            maxSize: 2,
+            maxWaitMs: 1000,
+            signal: controller.signal
+        });
+        controller.abort();
+        await assert.rejects(abortedBatch, { name: 'AbortError' });
+        const disposedBatch = queue.dequeueBatch({ maxSize: 2, maxWaitMs: 1000 });
+        queue.dispose();
+        await assert.rejects(disposedBatch, { name: 'InvalidStateError' });
+    });
+    await it('throws a RangeError for invalid batch options', async () => {
+        const queue = new UniqueTimedEntryQueue(100);
+        await assert.rejects(queue.dequeueBatch({ maxSize: 0, maxWaitMs: 1000 }), RangeError);
+        assert.throws(() => new UniqueTimedEntryQueue({
+            batch: { maxSize: 2, maxWaitMilliseconds: -1 }
+        }), RangeError);
+    });
+});
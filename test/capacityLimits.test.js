@@ -0,0 +1,103 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+await describe('Unique Timed Entry Queue - Capacity Limits', async () => {
+    await it('drops the newest entries by default', () => {
+        const queue = new UniqueTimedEntryQueue({
+            enqueueDelayMilliseconds: 100,
+            maxPending: 1,
+            maxSize: 1
+        });
+        const overflows = [];
+        queue.addEventListener('overflow', (entry, details) => {
+            overflows.push([entry, details]);
+        });
+        assert.strictEqual(queue.enqueue('entry1'), true);
+        assert.strictEqual(queue.enqueue('entry2'), false);
+        assert.strictEqual(queue.enqueue('entry3', 0), true);
+        assert.strictEqual(queue.enqueue('entry4', 0), false);
+        assert.deepStrictEqual(queue.pendingToArray(), ['entry1']);
+        assert.deepStrictEqual(queue.toArray(), ['entry3']);
+        assert.deepStrictEqual(overflows, [
+            [
+                'entry2',
+                { key: 'entry2', limit: 1, policy: 'dropNewest', target: 'pending' }
+            ],
+            [
+                'entry4',
+                { key: 'entry4', limit: 1, policy: 'dropNewest', target: 'queue' }
+            ]
+        ]);
+    });
+    await it('drops the oldest entries', () => {
+        const queue = new UniqueTimedEntryQueue({
+            enqueueDelayMilliseconds: 100,
+            maxPending: 2,
+            maxSize: 2,
+            pendingOverflowPolicy: 'dropOldest',
+            queueOverflowPolicy: 'dropOldest'
+        });
+        const cancelReasons = [];
+        const evictedKeys = [];
+        queue.addEventListener('pendingCancel', (_entry, details) => {
+            cancelReasons.push(details.reason);
+        });
+        queue.addEventListener('overflow', (_entry, details) => {
+            evictedKeys.push(details.evictedKey);
+        });
+        queue.enqueueAll(['entry1', 'entry2', 'entry3']);
+        queue.enqueueAll(['entry4', 'entry5', 'entry6'], 0);
+        assert.deepStrictEqual(queue.pendingToArray(), ['entry2', 'entry3']);
+        assert.deepStrictEqual(queue.toArray(), ['entry5', 'entry6']);
+        assert.deepStrictEqual(cancelReasons, ['overflow']);
+        assert.deepStrictEqual(evictedKeys, ['entry1', 'entry4']);
+    });
+    await it('promotes the oldest pending entry', () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue({
+            clock,
+            enqueueDelayMilliseconds: 100,
+            maxPending: 2,
+            pendingOverflowPolicy: 'promoteOldest'
+        });
+        queue.enqueue('entry1');
+        clock.advanceBy(10);
+        queue.enqueue('entry2', 50);
+        assert.strictEqual(queue.enqueue('entry3'), true);
+        assert.deepStrictEqual(queue.toArray(), ['entry1']);
+        assert.deepStrictEqual(queue.pendingToArray(), ['entry2', 'entry3']);
+    });
+    await it('rejects entries when full', () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue({
+            clock,
+            enqueueDelayMilliseconds: 100,
+            maxPending: 2,
+            maxSize: 1,
+            pendingOverflowPolicy: 'reject',
+            queueOverflowPolicy: 'reject'
+        });
+        queue.enqueue('entry1', 0);
+        assert.throws(() => queue.enqueue('entry2', 0), {
+            name: 'QuotaExceededError'
+        });
+        queue.enqueueAll(['entry3', 'entry4']);
+        assert.throws(() => queue.enqueue('entry5'), {
+            name: 'QuotaExceededError'
+        });
+        // Entries that finish waiting while the queue is full are dropped.
+        clock.advanceBy(100);
+        assert.deepStrictEqual(queue.toArray(), ['entry1']);
+        assert.strictEqual(queue.hasPending(), false);
+    });
+    await it('throws a TypeError for unknown policies', () => {
+        assert.throws(() => 
+        // @ts-expect-error - Testing an invalid policy.
+        new UniqueTimedEntryQueue({ queueOverflowPolicy: 'promoteOldest' }), TypeError);
+    });
+});
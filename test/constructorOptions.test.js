@@ -0,0 +1,89 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+await describe('Unique Timed Entry Queue - Constructor Options', async () => {
+    await it('initializes with an options object', () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue({
+            clock,
+            enqueueDelayMilliseconds: 500,
+            getKey: (entry) => entry.id.toString(),
+            registerExitHook: false
+        });
+        assert.strictEqual(queue.enqueueDelay(), 500);
+        queue.enqueue({ id: 1 });
+        queue.enqueue({ id: 1 });
+        clock.advanceBy(500);
+        assert.deepStrictEqual(queue.toArray(), [{ id: 1 }]);
+    });
+    await it('initializes with the default delay', () => {
+        assert.strictEqual(new UniqueTimedEntryQueue().enqueueDelay(), 60_000);
+        assert.strictEqual(new UniqueTimedEntryQueue({}).enqueueDelay(), 60_000);
+    });
+    await it('prefers a numeric delay over the options', () => {
+        const queue = new UniqueTimedEntryQueue(100, {
+            enqueueDelayMilliseconds: 200
+        });
+        assert.strictEqual(queue.enqueueDelay(), 100);
+    });
+    await it('uses the options with an undefined delay', () => {
+        const queue = new UniqueTimedEntryQueue(undefined, { getKey: (entry) => entry.id.toString() });
+        queue.enqueueAll([
+            { id: 1, name: 'first' },
+            { id: 1, name: 'second' }
+        ], 0);
+        assert.strictEqual(queue.size(), 1);
+        assert.strictEqual(queue.enqueueDelay(), 60_000);
+    });
+    await it('throws a RangeError for invalid delays', () => {
+        for (const invalidDelay of [Number.NaN, Number.POSITIVE_INFINITY, -1]) {
+            assert.throws(() => new UniqueTimedEntryQueue(invalidDelay), RangeError);
+            assert.throws(() => new UniqueTimedEntryQueue({ enqueueDelayMilliseconds: invalidDelay }), RangeError);
+            assert.throws(() => new UniqueTimedEntryQueue({ maxWaitMilliseconds: invalidDelay }), RangeError);
+            const queue = new UniqueTimedEntryQueue(100);
+            assert.throws(() => {
+                queue.enqueue('entry', invalidDelay);
+            }, RangeError);
+            assert.strictEqual(queue.hasPending(), false);
+        }
+    });
+    await it('throws a RangeError for invalid sizes', () => {
+        for (const invalidSize of [0, 1.5, -1, Number.NaN]) {
+            assert.throws(() => new UniqueTimedEntryQueue({ maxSize: invalidSize }), RangeError);
+            assert.throws(() => new UniqueTimedEntryQueue({ maxPending: invalidSize }), RangeError);
+        }
+    });
+    await it('discards entries beyond the maximum sizes', () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue({
+            clock,
+            enqueueDelayMilliseconds: 100,
+            maxPending: 2,
+            maxSize: 3
+        });
+        queue.enqueueAll(['entry1', 'entry2', 'entry3']);
+        assert.deepStrictEqual(queue.pendingToArray(), ['entry1', 'entry2']);
+        queue.enqueue('entry1');
+        assert.strictEqual(queue.pendingSize(), 2);
+        clock.advanceBy(100);
+        queue.enqueueAll(['entry3', 'entry4', 'entry1'], 0);
+        assert.deepStrictEqual(queue.toArray(), ['entry2', 'entry1', 'entry3']);
+    });
+    await it('writes to a custom logger', () => {
+        const messages = [];
+        const queue = new UniqueTimedEntryQueue({
+            enqueueDelayMilliseconds: 100,
+            logger: (message) => {
+                messages.push(message);
+            },
+            name: 'notifications'
+        });
+        queue.enqueue('entry', 0);
+        assert.ok(messages.some((message) => message.includes('entry')));
+    });
+});
@@ -0,0 +1,104 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue from '../index.js';
+import { wait } from './utilities.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+await describe('Unique Timed Entry Queue - Dead-Letter Operations', async () => {
+    await it('keeps failed entries with their error history', async () => {
+        const queue = new UniqueTimedEntryQueue();
+        let attemptCount = 0;
+        const deadLetterEntries = [];
+        queue.addEventListener('deadLetter', (entry) => {
+            deadLetterEntries.push(entry);
+        });
+        const processor = queue.process(() => {
+            attemptCount += 1;
+            throw new Error(`Attempt ${attemptCount} failed`);
+        }, { backoff: 10, retries: 2 });
+        queue.enqueue('entry', 0);
+        await wait(60);
+        await processor.stop();
+        const [deadLetterEntry] = queue.deadLetterToArray();
+        assert.strictEqual(deadLetterEntry.value, 'entry');
+        assert.deepStrictEqual(deadLetterEntry.errors.map((error) => error.message), ['Attempt 1 failed', 'Attempt 2 failed', 'Attempt 3 failed']);
+        assert.deepStrictEqual(deadLetterEntries, ['entry']);
+    });
+    await it('dead-letters failed entries that cannot be retried', async () => {
+        for (const pendingOverflowPolicy of ['dropNewest', 'reject']) {
+            const queue = new UniqueTimedEntryQueue({
+                enqueueDelayMilliseconds: 60_000,
+                maxPending: 1,
+                pendingOverflowPolicy
+            });
+            const processor = queue.process(() => {
+                throw new Error('Attempt failed');
+            }, { backoff: 10, retries: 2 });
+            queue.enqueue('blocker');
+            queue.enqueue('entry', 0);
+            await wait(20);
+            await processor.stop();
+            const [deadLetterEntry] = queue.deadLetterToArray();
+            assert.strictEqual(deadLetterEntry.value, 'entry');
+            assert.deepStrictEqual(deadLetterEntry.errors.map((error) => error.name), pendingOverflowPolicy === 'reject'
+                ? ['Error', 'QuotaExceededError']
+                : ['Error']);
+            assert.deepStrictEqual(queue.pendingToArray(), ['blocker']);
+            // The pending entries are still full, so the entry stays in the dead-letter store.
+            if (pendingOverflowPolicy === 'reject') {
+                assert.throws(() => queue.retryDeadLetter('entry', 100), {
+                    name: 'QuotaExceededError'
+                });
+            }
+            else {
+                assert.strictEqual(queue.retryDeadLetter('entry', 100), false);
+            }
+            assert.strictEqual(queue.deadLetterToArray().length, 1);
+            queue.clearPending();
+            assert.strictEqual(queue.retryDeadLetter('entry', 100), true);
+            assert.strictEqual(queue.deadLetterToArray().length, 0);
+            queue.clearPending();
+        }
+    });
+    await it('does retryDeadLetter()', async () => {
+        const queue = new UniqueTimedEntryQueue();
+        let shouldFail = true;
+        const handledEntries = [];
+        const processor = queue.process((entry) => {
+            if (shouldFail) {
+                throw new Error('Handler failed');
+            }
+            handledEntries.push(entry);
+        });
+        queue.enqueue('entry', 0);
+        await wait(10);
+        assert.strictEqual(queue.deadLetterToArray().length, 1);
+        shouldFail = false;
+        assert.strictEqual(queue.retryDeadLetter('entry'), true);
+        assert.strictEqual(queue.retryDeadLetter('entry'), false);
+        await processor.stop({ drain: true });
+        assert.deepStrictEqual(handledEntries, ['entry']);
+        assert.strictEqual(queue.deadLetterToArray().length, 0);
+    });
+    await it('does clearDeadLetter() and includes dead letters in clearAll()', async () => {
+        const queue = new UniqueTimedEntryQueue();
+        const processor = queue.process(() => {
+            throw new Error('Handler failed');
+        });
+        queue.enqueueAll(['entry1', 'entry2'], 0);
+        await processor.stop({ drain: true });
+        assert.strictEqual(queue.clearDeadLetter(), 2);
+        assert.strictEqual(queue.deadLetterToArray().length, 0);
+        const secondProcessor = queue.process(() => {
+            throw new Error('Handler failed');
+        });
+        queue.enqueue('entry3', 0);
+        await secondProcessor.stop({ drain: true });
+        queue.enqueue('entry4', 0);
+        queue.enqueue('entry5');
+        assert.strictEqual(queue.clearAll(), 3);
+    });
+});
@@ -0,0 +1,75 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+await describe('Unique Timed Entry Queue - Dispose Operations', async () => {
+    await it('does dispose()', () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue(100, { clock });
+        let enqueueCount = 0;
+        queue.addEventListener('enqueue', () => {
+            enqueueCount += 1;
+        });
+        queue.enqueue('entry1');
+        queue.enqueue('entry2', 0);
+        assert.strictEqual(clock.timerCount(), 1);
+        queue.dispose();
+        assert.strictEqual(clock.timerCount(), 0);
+        assert.strictEqual(queue.listenerCount('enqueue'), 0);
+        assert.strictEqual(enqueueCount, 1);
+        clock.advanceBy(100);
+        assert.throws(() => {
+            queue.enqueue('entry3');
+        }, { name: 'InvalidStateError' });
+        assert.throws(() => queue.dequeue(), { name: 'InvalidStateError' });
+        assert.throws(() => queue.size(), { name: 'InvalidStateError' });
+        // Disposing again has no effect.
+        queue.dispose();
+    });
+    await it('rejects waiting dequeueAsync() calls and ends "for await" loops', async () => {
+        const queue = new UniqueTimedEntryQueue(100);
+        const iteratedEntries = [];
+        const iterationPromise = (async () => {
+            for await (const entry of queue) {
+                iteratedEntries.push(entry);
+            }
+        })();
+        const dequeuePromise = queue.dequeueAsync();
+        queue.enqueue('entry1', 0);
+        queue.dispose();
+        await assert.rejects(dequeuePromise, { name: 'InvalidStateError' });
+        await iterationPromise;
+        assert.deepStrictEqual(iteratedEntries, ['entry1']);
+        await assert.rejects(queue.dequeueAsync(), { name: 'InvalidStateError' });
+    });
+    await it('disposes with Symbol.dispose and Symbol.asyncDispose', async () => {
+        const disposedQueues = [];
+        // Equivalent to "using", which is not supported by every tested Node version.
+        const queue = new UniqueTimedEntryQueue(100);
+        try {
+            queue.enqueue('entry');
+            disposedQueues.push(queue);
+        }
+        finally {
+            queue[Symbol.dispose]();
+        }
+        // Equivalent to "await using".
+        const asyncQueue = new UniqueTimedEntryQueue(100);
+        try {
+            asyncQueue.enqueue('entry');
+            disposedQueues.push(asyncQueue);
+        }
+        finally {
+            await asyncQueue[Symbol.asyncDispose]();
+        }
+        for (const disposedQueue of disposedQueues) {
+            assert.throws(() => disposedQueue.hasPending(), {
+                name: 'InvalidStateError'
+            });
+        }
+    });
+});
@@ -2,6 +2,7 @@
 /* eslint-disable @typescript-eslint/no-magic-numbers */
 
 import assert from 'node:assert'
+import { on, once } from 'node:events'
 import { afterEach, describe, it } from 'node:test'
 
 import Debug from 'debug'
@@ -72,4 +73,289 @@ await describe('Unique Timed Entry Queue - Event Listeners', async () => {
       '"enqueue" event should not have been dispatched after listener removal'
     )
   })
+
+  await it('dispatches pending lifecycle events', () => {
+    queue = new UniqueTimedEntryQueue<string>(1000)
+
+    const dispatchedEvents: string[] = []
+
+    queue.addEventListener('pending', (entry, details) => {
+      dispatchedEvents.push(`pending:${entry}:${details.delay}`)
+    })
+
+    queue.addEventListener('pendingReset', (entry, details) => {
+      dispatchedEvents.push(`pendingReset:${entry}:${details.delay}`)
+    })
+
+    queue.addEventListener('pendingCancel', (entry, details) => {
+      dispatchedEvents.push(`pendingCancel:${entry}:${details.reason}`)
+    })
+
+    queue.addEventListener('clear', (details) => {
+      dispatchedEvents.push(`clear:${details.target}:${details.count}`)
+    })
+
+    queue.enqueue('entry1')
+    queue.enqueue('entry1', 2000)
+    queue.enqueue('entry2')
+    queue.clearPendingEntry('entry1')
+    queue.clearPending()
+
+    assert.deepStrictEqual(dispatchedEvents, [
+      'pending:entry1:1000',
+      'pendingReset:entry1:2000',
+      'pending:entry2:1000',
+      'pendingCancel:entry1:clearPendingEntry',
+      'pendingCancel:entry2:clearPending',
+      'clear:pending:1'
+    ])
+  })
+
+  await it('dispatches queue lifecycle events', () => {
+    queue = new UniqueTimedEntryQueue<string>()
+
+    const dispatchedEvents: string[] = []
+
+    queue.addEventListener('enqueue', (entry, details) => {
+      dispatchedEvents.push(`enqueue:${entry}:${details.key}`)
+    })
+
+    queue.addEventListener('duplicate', (entry, details) => {
+      dispatchedEvents.push(`duplicate:${entry}:${details.reason}`)
+    })
+
+    queue.addEventListener('dequeue', (entry) => {
+      dispatchedEvents.push(`dequeue:${entry}`)
+    })
+
+    queue.addEventListener('drain', (details) => {
+      dispatchedEvents.push(`drain:${details.pendingCount}`)
+    })
+
+    queue.addEventListener('clear', (details) => {
+      dispatchedEvents.push(`clear:${details.target}:${details.count}`)
+    })
+
+    queue.enqueueAll(['entry1', 'entry1', 'entry2'], 0)
+    queue.dequeue()
+    queue.dequeue()
+    queue.dequeue()
+    queue.enqueue('entry3', 0)
+    queue.clear()
+
+    assert.deepStrictEqual(dispatchedEvents, [
+      'enqueue:entry1:entry1',
+      'duplicate:entry1:discarded',
+      'enqueue:entry2:entry2',
+      'dequeue:entry1',
+      'dequeue:entry2',
+      'drain:0',
+      'enqueue:entry3:entry3',
+      'clear:queue:1'
+    ])
+  })
+
+  await it('isolates listener errors and dispatches "error" events', async () => {
+    const handledErrors: string[] = []
+
+    queue = new UniqueTimedEntryQueue<string>(50, {
+      onListenerError: (error, eventType) => {
+        handledErrors.push(`${eventType}:${(error as Error).message}`)
+      }
+    })
+
+    const errorEvents: string[] = []
+
+    queue.addEventListener('error', (error, details) => {
+      errorEvents.push(`${details.eventType}:${(error as Error).message}`)
+    })
+
+    queue.addEventListener('enqueue', () => {
+      throw new Error('Listener failed')
+    })
+
+    queue.addEventListener('enqueue', async () => {
+      await wait(1)
+      throw new Error('Async listener failed')
+    })
+
+    let enqueueCount = 0
+
+    queue.addEventListener('enqueue', () => {
+      enqueueCount += 1
+    })
+
+    queue.enqueue('entry')
+
+    await wait(100)
+
+    assert.strictEqual(queue.size(), 1, 'Entry should still be enqueued')
+
+    assert.strictEqual(
+      enqueueCount,
+      1,
+      'Other listeners should still be called'
+    )
+
+    assert.deepStrictEqual(errorEvents, [
+      'enqueue:Listener failed',
+      'enqueue:Async listener failed'
+    ])
+
+    assert.deepStrictEqual(handledErrors, errorEvents)
+  })
+
+  await it('ignores errors thrown by "error" listeners', () => {
+    queue = new UniqueTimedEntryQueue<string>()
+
+    queue.addEventListener('error', () => {
+      throw new Error('Error listener failed')
+    })
+
+    queue.addEventListener('enqueue', () => {
+      throw new Error('Listener failed')
+    })
+
+    assert.doesNotThrow(() => {
+      queue?.enqueue('entry', 0)
+    })
+  })
+
+  await it('adds "once" event listeners', () => {
+    queue = new UniqueTimedEntryQueue<string>()
+
+    let eventCount = 0
+
+    queue.addEventListener(
+      'enqueue',
+      () => {
+        eventCount += 1
+      },
+      { once: true }
+    )
+
+    queue.enqueueAll(['entry1', 'entry2'], 0)
+
+    assert.strictEqual(eventCount, 1)
+  })
+
+  await it('removes event listeners with an AbortSignal', () => {
+    queue = new UniqueTimedEntryQueue<string>()
+
+    const abortController = new AbortController()
+
+    let eventCount = 0
+
+    queue.addEventListener(
+      'enqueue',
+      () => {
+        eventCount += 1
+      },
+      { signal: abortController.signal }
+    )
+
+    queue.enqueue('entry1', 0)
+
+    abortController.abort()
+
+    queue.enqueue('entry2', 0)
+
+    assert.strictEqual(eventCount, 1)
+    assert.strictEqual(queue.listenerCount('enqueue'), 0)
+  })
+
+  await it('removes event listeners by function', () => {
+    queue = new UniqueTimedEntryQueue<string>()
+
+    let eventCount = 0
+
+    const listener = (): void => {
+      eventCount += 1
+    }
+
+    queue.addEventListener('enqueue', listener)
+    queue.removeEventListener('enqueue', listener)
+
+    queue.enqueue('entry', 0)
+
+    assert.strictEqual(eventCount, 0)
+  })
+
+  await it('removes "once" event listeners by function', () => {
+    queue = new UniqueTimedEntryQueue<string>()
+
+    let eventCount = 0
+
+    const listener = (): void => {
+      eventCount += 1
+    }
+
+    queue.addEventListener('enqueue', listener, { once: true })
+    queue.removeEventListener('enqueue', listener)
+
+    queue.addEventListener('dequeue', listener, { once: true })
+    queue.off('dequeue', listener)
+
+    queue.enqueue('entry', 0)
+    queue.dequeue()
+
+    assert.strictEqual(eventCount, 0)
+    assert.strictEqual(queue.listenerCount('enqueue'), 0)
+    assert.strictEqual(queue.listenerCount('dequeue'), 0)
+  })
+
+  await it('supports EventEmitter functions', async () => {
+    queue = new UniqueTimedEntryQueue<string>(50)
+
+    let eventCount = 0
+
+    const listener = (): void => {
+      eventCount += 1
+    }
+
+    queue.on('enqueue', listener)
+
+    queue.enqueue('entry1')
+
+    const [entry, details] = await once(queue, 'enqueue')
+
+    assert.strictEqual(entry, 'entry1')
+    assert.deepStrictEqual(details, { key: 'entry1' })
+
+    queue.off('enqueue', listener)
+
+    queue.enqueue('entry2', 0)
+
+    assert.strictEqual(eventCount, 1)
+  })
+
+  await it('supports events.on()', async () => {
+    queue = new UniqueTimedEntryQueue<string>()
+
+    const abortController = new AbortController()
+
+    const enqueuedEntries: string[] = []
+
+    const iterationPromise = (async () => {
+      try {
+        for await (const [entry] of on(queue, 'enqueue', {
+          signal: abortController.signal
+        })) {
+          enqueuedEntries.push(entry as string)
+        }
+      } catch {
+        // Aborted
+      }
+    })()
+
+    queue.enqueueAll(['entry1', 'entry2'], 0)
+
+    await wait(10)
+
+    abortController.abort()
+
+    await iterationPromise
+
+    assert.deepStrictEqual(enqueuedEntries, ['entry1', 'entry2'])
+  })
 })
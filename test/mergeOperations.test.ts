@@ -0,0 +1,123 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import Debug from 'debug'
+
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
+import UniqueTimedEntryQueue, { mergeStrategies } from '../index.js'
+
+import { wait } from './utilities.js'
+
+Debug.enable(DEBUG_ENABLE_NAMESPACES)
+
+interface WorkOrderUpdate {
+  changedFields: string[]
+  workOrderNumber: string
+}
+
+function getWorkOrderKey(update: WorkOrderUpdate): string {
+  return update.workOrderNumber
+}
+
+function mergeWorkOrderUpdates(
+  existing: WorkOrderUpdate,
+  incoming: WorkOrderUpdate
+): WorkOrderUpdate {
+  return {
+    changedFields: [
+      ...new Set([...existing.changedFields, ...incoming.changedFields])
+    ],
+    workOrderNumber: existing.workOrderNumber
+  }
+}
+
+await describe('Unique Timed Entry Queue - Merge Operations', async () => {
+  await it('keeps the latest pending entry by default', () => {
+    const queue = new UniqueTimedEntryQueue<WorkOrderUpdate>(1000, {
+      getKey: getWorkOrderKey
+    })
+
+    queue.enqueue({ changedFields: ['status'], workOrderNumber: 'WO.1' })
+    queue.enqueue({ changedFields: ['details'], workOrderNumber: 'WO.1' })
+
+    assert.deepStrictEqual(queue.pendingToArray(), [
+      { changedFields: ['details'], workOrderNumber: 'WO.1' }
+    ])
+
+    queue.clearAll()
+  })
+
+  await it('keeps the first pending entry with mergeStrategies.keepFirst', () => {
+    const queue = new UniqueTimedEntryQueue<WorkOrderUpdate>(1000, {
+      getKey: getWorkOrderKey,
+      merge: mergeStrategies.keepFirst
+    })
+
+    queue.enqueue({ changedFields: ['status'], workOrderNumber: 'WO.1' })
+    queue.enqueue({ changedFields: ['details'], workOrderNumber: 'WO.1' })
+
+    assert.deepStrictEqual(queue.pendingToArray(), [
+      { changedFields: ['status'], workOrderNumber: 'WO.1' }
+    ])
+
+    queue.clearAll()
+  })
+
+  await it('merges pending entries with a custom merge function', async () => {
+    const queue = new UniqueTimedEntryQueue<WorkOrderUpdate>(100, {
+      getKey: getWorkOrderKey,
+      merge: mergeWorkOrderUpdates
+    })
+
+    queue.enqueue({ changedFields: ['status'], workOrderNumber: 'WO.1' })
+    queue.enqueue({ changedFields: ['details'], workOrderNumber: 'WO.1' })
+    queue.enqueue({ changedFields: ['status'], workOrderNumber: 'WO.1' })
+
+    assert.strictEqual(queue.pendingSize(), 1)
+
+    await wait(150)
+
+    assert.deepStrictEqual(queue.dequeue(), {
+      changedFields: ['status', 'details'],
+      workOrderNumber: 'WO.1'
+    })
+  })
+
+  await it('discards entries already in the queue by default', () => {
+    const queue = new UniqueTimedEntryQueue<WorkOrderUpdate>(1000, {
+      getKey: getWorkOrderKey,
+      merge: mergeWorkOrderUpdates
+    })
+
+    queue.enqueue({ changedFields: ['status'], workOrderNumber: 'WO.1' }, 0)
+    queue.enqueue({ changedFields: ['details'], workOrderNumber: 'WO.1' }, 0)
+
+    assert.deepStrictEqual(queue.toArray(), [
+      { changedFields: ['status'], workOrderNumber: 'WO.1' }
+    ])
+  })
+
+  await it('merges into entries already in the queue with mergeQueued', () => {
+    const queue = new UniqueTimedEntryQueue<WorkOrderUpdate>(1000, {
+      getKey: getWorkOrderKey,
+      merge: mergeWorkOrderUpdates,
+      mergeQueued: true
+    })
+
+    queue.enqueue({ changedFields: ['status'], workOrderNumber: 'WO.1' }, 0)
+    queue.enqueue({ changedFields: ['details'], workOrderNumber: 'WO.1' })
+
+    assert.strictEqual(
+      queue.pendingSize(),
+      0,
+      'Entry should be merged into the queue instead of going pending'
+    )
+
+    assert.deepStrictEqual(queue.toArray(), [
+      { changedFields: ['status', 'details'], workOrderNumber: 'WO.1' }
+    ])
+  })
+})
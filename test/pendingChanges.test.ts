@@ -0,0 +1,140 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import Debug from 'debug'
+
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js'
+
+Debug.enable(DEBUG_ENABLE_NAMESPACES)
+
+await describe('Unique Timed Entry Queue - Pending Changes', async () => {
+  await it('does promotePendingEntry()', () => {
+    const clock = new ManualClock()
+
+    const queue = new UniqueTimedEntryQueue<string>({
+      clock,
+      enqueueDelayMilliseconds: 1000
+    })
+
+    const enqueuedEntries: string[] = []
+    const duplicateEntries: string[] = []
+
+    queue.addEventListener('enqueue', (entry) => {
+      enqueuedEntries.push(entry)
+    })
+
+    queue.addEventListener('duplicate', (entry) => {
+      duplicateEntries.push(entry)
+    })
+
+    queue.enqueueAll(['entry1', 'entry2'])
+
+    assert.strictEqual(queue.promotePendingEntry('entry2'), true)
+    assert.strictEqual(queue.promotePendingEntry('entry3'), false)
+
+    assert.deepStrictEqual(queue.toArray(), ['entry2'])
+    assert.deepStrictEqual(queue.pendingToArray(), ['entry1'])
+    assert.deepStrictEqual(enqueuedEntries, ['entry2'])
+
+    queue.enqueue('entry2')
+    queue.promotePendingEntry('entry2')
+
+    assert.deepStrictEqual(queue.toArray(), ['entry2'])
+    assert.deepStrictEqual(duplicateEntries, ['entry2'])
+    assert.strictEqual(queue.hasPendingEntry('entry2'), false)
+
+    clock.advanceBy(1000)
+
+    assert.deepStrictEqual(queue.toArray(), ['entry2', 'entry1'])
+  })
+
+  await it('does reschedulePendingEntry()', () => {
+    const clock = new ManualClock()
+
+    const queue = new UniqueTimedEntryQueue<{ id: number; version: number }>({
+      clock,
+      enqueueDelayMilliseconds: 1000,
+      getKey: (entry) => entry.id.toString()
+    })
+
+    const resetDelays: number[] = []
+
+    queue.addEventListener('pendingReset', (_entry, details) => {
+      resetDelays.push(details.delay)
+    })
+
+    queue.enqueue({ id: 1, version: 1 })
+
+    clock.advanceBy(100)
+
+    assert.strictEqual(
+      queue.reschedulePendingEntry({ id: 1, version: 2 }, 5000),
+      true
+    )
+
+    assert.strictEqual(
+      queue.reschedulePendingEntry({ id: 2, version: 1 }, 0),
+      false
+    )
+
+    assert.deepStrictEqual(resetDelays, [5000])
+
+    const pendingInfo = queue.getPendingInfo({ id: 1, version: 0 })
+
+    assert.strictEqual(pendingInfo?.dueAt, 5100)
+    assert.deepStrictEqual(pendingInfo.value, { id: 1, version: 1 })
+
+    clock.advanceBy(4999)
+    assert.ok(queue.isEmpty())
+
+    clock.advanceBy(1)
+    assert.deepStrictEqual(queue.toArray(), [{ id: 1, version: 1 }])
+  })
+
+  await it('reschedules a pending entry to an earlier time', () => {
+    const clock = new ManualClock()
+
+    const queue = new UniqueTimedEntryQueue<string>({
+      clock,
+      enqueueDelayMilliseconds: 60_000
+    })
+
+    queue.enqueue('entry')
+    queue.reschedulePendingEntry('entry', 10)
+
+    clock.advanceBy(10)
+
+    assert.deepStrictEqual(queue.toArray(), ['entry'])
+    assert.strictEqual(clock.timerCount(), 0)
+  })
+
+  await it('does extendPendingEntry()', () => {
+    const clock = new ManualClock()
+
+    const queue = new UniqueTimedEntryQueue<string>({
+      clock,
+      enqueueDelayMilliseconds: 1000
+    })
+
+    queue.enqueue('entry')
+
+    clock.advanceBy(400)
+
+    assert.strictEqual(queue.extendPendingEntry('entry', 500), true)
+    assert.strictEqual(queue.extendPendingEntry('otherEntry', 500), false)
+
+    assert.strictEqual(queue.getPendingInfo('entry')?.dueAt, 1500)
+
+    assert.throws(() => queue.extendPendingEntry('entry', -1), RangeError)
+
+    clock.advanceBy(1099)
+    assert.ok(queue.isEmpty())
+
+    clock.advanceBy(1)
+    assert.deepStrictEqual(queue.toArray(), ['entry'])
+  })
+})
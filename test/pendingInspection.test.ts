@@ -0,0 +1,121 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import Debug from 'debug'
+
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js'
+
+Debug.enable(DEBUG_ENABLE_NAMESPACES)
+
+await describe('Unique Timed Entry Queue - Pending Inspection', async () => {
+  await it('does getPendingInfo()', () => {
+    const clock = new ManualClock(1_000_000)
+
+    const queue = new UniqueTimedEntryQueue<string>({
+      clock,
+      enqueueDelayMilliseconds: 300_000
+    })
+
+    queue.enqueue('WO.26.00001')
+
+    assert.deepStrictEqual(queue.getPendingInfo('WO.26.00001'), {
+      delay: 300_000,
+      dueAt: 1_300_000,
+      enqueuedAt: 1_000_000,
+      key: 'WO.26.00001',
+      lastEnqueuedAt: 1_000_000,
+      lastResetAt: undefined,
+      resetCount: 0,
+      value: 'WO.26.00001'
+    })
+
+    for (let resetIndex = 0; resetIndex < 4; resetIndex += 1) {
+      clock.advanceBy(1000)
+      queue.enqueue('WO.26.00001')
+    }
+
+    const pendingInfo = queue.getPendingInfo('WO.26.00001')
+
+    assert.strictEqual(pendingInfo?.resetCount, 4)
+    assert.strictEqual(pendingInfo.lastResetAt, 1_004_000)
+    assert.strictEqual(pendingInfo.dueAt, 1_304_000)
+    assert.strictEqual(pendingInfo.enqueuedAt, 1_000_000)
+
+    assert.strictEqual(queue.getPendingInfo('WO.26.00002'), undefined)
+  })
+
+  await it('does not count updates in "fixed" timing mode as resets', () => {
+    const clock = new ManualClock()
+
+    const queue = new UniqueTimedEntryQueue<string>({
+      clock,
+      enqueueDelayMilliseconds: 1000,
+      timingMode: 'fixed'
+    })
+
+    queue.enqueue('entry')
+    clock.advanceBy(500)
+    queue.enqueue('entry')
+
+    const pendingInfo = queue.getPendingInfo('entry')
+
+    assert.strictEqual(pendingInfo?.resetCount, 0)
+    assert.strictEqual(pendingInfo.lastEnqueuedAt, 500)
+  })
+
+  await it('does pendingEntries()', () => {
+    const clock = new ManualClock()
+
+    const queue = new UniqueTimedEntryQueue<string>({
+      clock,
+      enqueueDelayMilliseconds: 1000
+    })
+
+    queue.enqueue('entry1')
+    queue.enqueue('entry2', 500)
+    clock.advanceBy(100)
+    queue.enqueue('entry1')
+
+    assert.deepStrictEqual(
+      queue
+        .pendingEntries()
+        .map(({ dueAt, key, resetCount }) => ({ dueAt, key, resetCount })),
+      [
+        { dueAt: 1100, key: 'entry1', resetCount: 1 },
+        { dueAt: 500, key: 'entry2', resetCount: 0 }
+      ]
+    )
+
+    const [pendingInfo] = queue.pendingEntries()
+    pendingInfo.resetCount = 10
+
+    assert.strictEqual(queue.getPendingInfo('entry1')?.resetCount, 1)
+  })
+
+  await it('keeps the reset details in snapshots', () => {
+    const clock = new ManualClock()
+
+    const queue = new UniqueTimedEntryQueue<string>({
+      clock,
+      enqueueDelayMilliseconds: 1000
+    })
+
+    queue.enqueue('entry')
+    clock.advanceBy(100)
+    queue.enqueue('entry')
+
+    const restoredQueue = UniqueTimedEntryQueue.fromSnapshot(
+      JSON.parse(JSON.stringify(queue.snapshot())) as ReturnType<
+        typeof queue.snapshot
+      >,
+      { clock, registerExitHook: false }
+    )
+
+    assert.strictEqual(restoredQueue.getPendingInfo('entry')?.resetCount, 1)
+    assert.strictEqual(restoredQueue.getPendingInfo('entry')?.lastResetAt, 100)
+  })
+})
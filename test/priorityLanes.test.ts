@@ -0,0 +1,150 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import Debug from 'debug'
+
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js'
+
+Debug.enable(DEBUG_ENABLE_NAMESPACES)
+
+interface Notification {
+  priority: number
+  workOrderNumber: string
+}
+
+function createQueue(
+  clock = new ManualClock()
+): UniqueTimedEntryQueue<Notification> {
+  return new UniqueTimedEntryQueue<Notification>({
+    clock,
+    enqueueDelayMilliseconds: 100,
+    getKey: (entry) => entry.workOrderNumber,
+    getPriority: (entry) => entry.priority
+  })
+}
+
+await describe('Unique Timed Entry Queue - Priority Lanes', async () => {
+  await it('dequeues the highest priority first, in FIFO order within a priority', () => {
+    const queue = createQueue()
+
+    queue.enqueueAll(
+      [
+        { priority: 0, workOrderNumber: 'routine1' },
+        { priority: 2, workOrderNumber: 'urgent1' },
+        { priority: 0, workOrderNumber: 'routine2' },
+        { priority: 1, workOrderNumber: 'high1' },
+        { priority: 2, workOrderNumber: 'urgent2' }
+      ],
+      0
+    )
+
+    assert.deepStrictEqual(
+      queue.toArray().map((entry) => entry.workOrderNumber),
+      ['urgent1', 'urgent2', 'high1', 'routine1', 'routine2']
+    )
+
+    const dequeuedEntries: string[] = []
+
+    while (!queue.isEmpty()) {
+      dequeuedEntries.push((queue.dequeue() as Notification).workOrderNumber)
+    }
+
+    assert.deepStrictEqual(dequeuedEntries, [
+      'urgent1',
+      'urgent2',
+      'high1',
+      'routine1',
+      'routine2'
+    ])
+  })
+
+  await it('upgrades a queued entry that is enqueued with a higher priority', () => {
+    const queue = createQueue()
+
+    queue.enqueueAll(
+      [
+        { priority: 0, workOrderNumber: 'routine1' },
+        { priority: 0, workOrderNumber: 'routine2' },
+        { priority: 1, workOrderNumber: 'high1' }
+      ],
+      0
+    )
+
+    queue.enqueue({ priority: 1, workOrderNumber: 'routine2' }, 0)
+    queue.enqueue({ priority: 0, workOrderNumber: 'high1' }, 0)
+
+    assert.deepStrictEqual(
+      queue.toArray().map((entry) => entry.workOrderNumber),
+      ['high1', 'routine2', 'routine1']
+    )
+
+    assert.deepStrictEqual(
+      queue.snapshot().queue.map((queueEntry) => queueEntry.priority),
+      [1, 1, undefined]
+    )
+  })
+
+  await it('drops the oldest entry of the lowest priority when full', () => {
+    const queue = new UniqueTimedEntryQueue<Notification>({
+      getKey: (entry) => entry.workOrderNumber,
+      getPriority: (entry) => entry.priority,
+      maxSize: 3,
+      queueOverflowPolicy: 'dropOldest'
+    })
+
+    queue.enqueueAll(
+      [
+        { priority: 2, workOrderNumber: 'urgent' },
+        { priority: 0, workOrderNumber: 'routine1' },
+        { priority: 0, workOrderNumber: 'routine2' },
+        { priority: 0, workOrderNumber: 'routine3' }
+      ],
+      0
+    )
+
+    assert.deepStrictEqual(
+      queue.toArray().map((entry) => entry.workOrderNumber),
+      ['urgent', 'routine2', 'routine3']
+    )
+  })
+
+  await it('hands the highest priority to waiting consumers', async () => {
+    const clock = new ManualClock()
+    const queue = createQueue(clock)
+
+    queue.enqueue({ priority: 0, workOrderNumber: 'routine1' })
+    queue.enqueue({ priority: 1, workOrderNumber: 'urgent1' })
+
+    clock.advanceBy(100)
+
+    const entry = await queue.dequeueAsync()
+
+    assert.strictEqual(entry.workOrderNumber, 'urgent1')
+  })
+
+  await it('keeps priorities in snapshots', () => {
+    const queue = createQueue()
+
+    queue.enqueueAll(
+      [
+        { priority: 0, workOrderNumber: 'routine1' },
+        { priority: 3, workOrderNumber: 'urgent1' }
+      ],
+      0
+    )
+
+    const restoredQueue = UniqueTimedEntryQueue.fromSnapshot(queue.snapshot(), {
+      getKey: (entry) => entry.workOrderNumber,
+      registerExitHook: false
+    })
+
+    assert.deepStrictEqual(
+      restoredQueue.toArray().map((entry) => entry.workOrderNumber),
+      ['urgent1', 'routine1']
+    )
+  })
+})
@@ -0,0 +1,231 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import Debug from 'debug'
+
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
+import UniqueTimedEntryQueue from '../index.js'
+
+import { wait } from './utilities.js'
+
+Debug.enable(DEBUG_ENABLE_NAMESPACES)
+
+await describe('Unique Timed Entry Queue - Process Operations', async () => {
+  await it('processes entries as they become available', async () => {
+    const queue = new UniqueTimedEntryQueue<string>(50)
+
+    const processedEntries: string[] = []
+
+    const processor = queue.process((entry) => {
+      processedEntries.push(entry)
+    })
+
+    queue.enqueueAll(['entry1', 'entry2'])
+    queue.enqueue('entry3', 0)
+
+    await wait(100)
+
+    assert.deepStrictEqual(processedEntries, ['entry3', 'entry1', 'entry2'])
+    assert.strictEqual(queue.isEmpty(), true)
+
+    await processor.stop()
+  })
+
+  await it('limits concurrency', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    let activeCount = 0
+    let maxActiveCount = 0
+
+    const processor = queue.process(
+      async () => {
+        activeCount += 1
+        maxActiveCount = Math.max(maxActiveCount, activeCount)
+        await wait(20)
+        activeCount -= 1
+      },
+      { concurrency: 2 }
+    )
+
+    queue.enqueueAll(['entry1', 'entry2', 'entry3', 'entry4', 'entry5'], 0)
+
+    assert.strictEqual(processor.inFlightCount(), 2)
+    assert.strictEqual(queue.size(), 3)
+
+    await processor.stop({ drain: true })
+
+    assert.strictEqual(maxActiveCount, 2)
+    assert.strictEqual(queue.isEmpty(), true)
+  })
+
+  await it('retries failed entries', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    let attemptCount = 0
+
+    const processor = queue.process(
+      () => {
+        attemptCount += 1
+
+        if (attemptCount < 3) {
+          throw new Error('Handler failed')
+        }
+      },
+      { backoff: (attempt) => attempt * 10, retries: 2 }
+    )
+
+    queue.enqueue('entry', 0)
+
+    assert.strictEqual(queue.hasPendingEntry('entry'), true)
+
+    await wait(60)
+
+    assert.strictEqual(attemptCount, 3)
+    assert.strictEqual(queue.hasPending(), false)
+
+    await processor.stop()
+  })
+
+  await it('keeps newer entries when a failed entry is retried', async () => {
+    const queue = new UniqueTimedEntryQueue<{ id: number; version: number }>({
+      getKey: (entry) => entry.id.toString()
+    })
+
+    const handledVersions: number[] = []
+
+    const processor = queue.process(
+      async (entry) => {
+        handledVersions.push(entry.version)
+
+        if (entry.version === 1) {
+          await wait(10)
+          throw new Error('Stale version failed')
+        }
+
+        if (handledVersions.length === 2) {
+          throw new Error('First attempt failed')
+        }
+      },
+      { backoff: 10, retries: 1 }
+    )
+
+    queue.enqueue({ id: 1, version: 1 }, 0)
+    queue.enqueue({ id: 1, version: 2 }, 20)
+
+    await wait(80)
+    await processor.stop()
+
+    // The newer entry is retried with its own attempts.
+    assert.deepStrictEqual(handledVersions, [1, 2, 2])
+    assert.deepStrictEqual(queue.deadLetterToArray(), [])
+  })
+
+  await it('moves entries to the dead-letter store after retries are exhausted', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    let attemptCount = 0
+
+    const processor = queue.process(
+      () => {
+        attemptCount += 1
+        throw new Error('Handler failed')
+      },
+      { backoff: 10, retries: 1 }
+    )
+
+    queue.enqueue('entry', 0)
+
+    await wait(50)
+
+    assert.strictEqual(attemptCount, 2)
+    assert.strictEqual(queue.hasPending(), false)
+    assert.strictEqual(queue.isEmpty(), true)
+    assert.strictEqual(queue.deadLetterToArray().length, 1)
+
+    await processor.stop()
+  })
+
+  await it('does not handle the same key at the same time', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    let activeCount = 0
+    let maxActiveCount = 0
+    let handledCount = 0
+
+    const processor = queue.process(
+      async () => {
+        activeCount += 1
+        maxActiveCount = Math.max(maxActiveCount, activeCount)
+        await wait(20)
+        activeCount -= 1
+        handledCount += 1
+      },
+      { concurrency: 2 }
+    )
+
+    queue.enqueue('entry', 0)
+    queue.enqueue('entry', 0)
+
+    assert.strictEqual(
+      queue.size(),
+      1,
+      'Entry should wait in the queue while the same key is in flight'
+    )
+
+    await processor.stop({ drain: true })
+
+    assert.strictEqual(maxActiveCount, 1)
+    assert.strictEqual(handledCount, 2)
+  })
+
+  await it('pauses and resumes processing', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    const processedEntries: string[] = []
+
+    const processor = queue.process((entry) => {
+      processedEntries.push(entry)
+    })
+
+    processor.pause()
+
+    assert.strictEqual(processor.isPaused(), true)
+
+    queue.enqueue('entry', 0)
+
+    await wait(10)
+
+    assert.deepStrictEqual(processedEntries, [])
+    assert.strictEqual(queue.size(), 1)
+
+    processor.resume()
+
+    await wait(10)
+
+    assert.deepStrictEqual(processedEntries, ['entry'])
+
+    await processor.stop()
+  })
+
+  await it('stops without draining the queue', async () => {
+    const queue = new UniqueTimedEntryQueue<string>()
+
+    const processor = queue.process(async () => {
+      await wait(20)
+    })
+
+    queue.enqueueAll(['entry1', 'entry2'], 0)
+
+    await processor.stop()
+
+    assert.strictEqual(processor.inFlightCount(), 0)
+    assert.deepStrictEqual(queue.toArray(), ['entry2'])
+
+    queue.enqueue('entry3', 0)
+
+    assert.deepStrictEqual(queue.toArray(), ['entry2', 'entry3'])
+  })
+})
@@ -0,0 +1,85 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue from '../index.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+function createQueue() {
+    return new UniqueTimedEntryQueue(1000, {
+        getKey: (workOrder) => workOrder.workOrderNumber
+    });
+}
+await describe('Unique Timed Entry Queue - Queue Queries', async () => {
+    await it('does remove()', () => {
+        const queue = createQueue();
+        const removedKeys = [];
+        queue.addEventListener('remove', (_entry, details) => {
+            removedKeys.push(details.key);
+        });
+        queue.enqueueAll([
+            { status: 'open', workOrderNumber: 'WO.1' },
+            { status: 'open', workOrderNumber: 'WO.2' }
+        ], 0);
+        queue.enqueue({ status: 'open', workOrderNumber: 'WO.3' });
+        assert.strictEqual(queue.remove({ status: 'deleted', workOrderNumber: 'WO.1' }), true);
+        assert.strictEqual(queue.remove({ status: 'deleted', workOrderNumber: 'WO.3' }), false);
+        assert.deepStrictEqual(queue.toArray().map((workOrder) => workOrder.workOrderNumber), ['WO.2']);
+        assert.deepStrictEqual(removedKeys, ['WO.1']);
+        assert.strictEqual(queue.pendingSize(), 1);
+    });
+    await it('does peek() and has()', () => {
+        const queue = createQueue();
+        assert.strictEqual(queue.peek(), undefined);
+        queue.enqueueAll([
+            { status: 'open', workOrderNumber: 'WO.1' },
+            { status: 'open', workOrderNumber: 'WO.2' }
+        ], 0);
+        queue.enqueue({ status: 'open', workOrderNumber: 'WO.3' });
+        assert.deepStrictEqual(queue.peek(), {
+            status: 'open',
+            workOrderNumber: 'WO.1'
+        });
+        assert.strictEqual(queue.size(), 2);
+        assert.strictEqual(queue.has({ status: '', workOrderNumber: 'WO.2' }), true);
+        assert.strictEqual(queue.has({ status: '', workOrderNumber: 'WO.3' }), false);
+    });
+    await it('does dequeueMany() and drain()', () => {
+        const queue = new UniqueTimedEntryQueue(1000);
+        queue.enqueueAll([1, 2, 3, 4, 5], 0);
+        assert.deepStrictEqual(queue.dequeueMany(2), [1, 2]);
+        assert.deepStrictEqual(queue.dequeueMany(5), [3, 4, 5]);
+        assert.deepStrictEqual(queue.dequeueMany(1), []);
+        assert.throws(() => queue.dequeueMany(0), RangeError);
+        queue.enqueueAll([6, 7], 0);
+        queue.enqueue(8);
+        const dequeuedEntries = [];
+        queue.addEventListener('dequeue', (entry) => {
+            dequeuedEntries.push(entry);
+        });
+        assert.deepStrictEqual(queue.drain(), [6, 7]);
+        assert.deepStrictEqual(dequeuedEntries, [6, 7]);
+        assert.ok(queue.isEmpty());
+        assert.ok(queue.hasPending());
+    });
+    await it('does removeWhere()', () => {
+        const queue = createQueue();
+        const cancelReasons = [];
+        queue.addEventListener('pendingCancel', (_entry, details) => {
+            cancelReasons.push(details.reason);
+        });
+        queue.enqueueAll([
+            { status: 'deleted', workOrderNumber: 'WO.1' },
+            { status: 'open', workOrderNumber: 'WO.2' }
+        ], 0);
+        queue.enqueueAll([
+            { status: 'deleted', workOrderNumber: 'WO.3' },
+            { status: 'open', workOrderNumber: 'WO.4' }
+        ]);
+        assert.strictEqual(queue.removeWhere((workOrder) => workOrder.status === 'deleted'), 2);
+        assert.deepStrictEqual(queue.toArray().map((workOrder) => workOrder.workOrderNumber), ['WO.2']);
+        assert.deepStrictEqual(queue.pendingToArray().map((workOrder) => workOrder.workOrderNumber), ['WO.4']);
+        assert.deepStrictEqual(cancelReasons, ['removeWhere']);
+    });
+});
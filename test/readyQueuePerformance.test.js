@@ -0,0 +1,49 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import UniqueTimedEntryQueue from '../index.js';
+// Debug output is not enabled, as logging every entry would dominate the timings.
+const entryCount = 100_000;
+const maximumDurationMilliseconds = 5000;
+const entries = Array.from({ length: entryCount }, (_value, index) => index);
+await describe('Unique Timed Entry Queue - Ready Queue Performance', async () => {
+    await it(`enqueues and dequeues ${entryCount} entries`, (context) => {
+        const queue = new UniqueTimedEntryQueue(60_000);
+        const startTime = performance.now();
+        queue.enqueueAll(entries, 0);
+        queue.enqueueAll(entries, 0);
+        assert.strictEqual(queue.size(), entryCount);
+        assert.deepStrictEqual(queue.toArray(), entries);
+        const dequeuedEntries = [];
+        while (!queue.isEmpty()) {
+            dequeuedEntries.push(queue.dequeue());
+        }
+        const duration = performance.now() - startTime;
+        context.diagnostic(`enqueue and dequeue: ${Math.round(duration)} ms`);
+        assert.ok(duration < maximumDurationMilliseconds);
+        assert.deepStrictEqual(dequeuedEntries, entries);
+    });
+    await it('keeps the queue order when entries are taken out of order', async () => {
+        const queue = new UniqueTimedEntryQueue(60_000, {
+            getKey: (entry) => entry.split(':')[0]
+        });
+        queue.enqueueAll(['a:1', 'b:1', 'c:1'], 0);
+        let releaseEntry = () => { };
+        const handledEntries = [];
+        const processor = queue.process(async (entry) => {
+            handledEntries.push(entry);
+            if (entry === 'a:1') {
+                // eslint-disable-next-line promise/avoid-new
+                await new Promise((resolve) => {
+                    releaseEntry = resolve;
+                });
+            }
+        }, { concurrency: 2 });
+        queue.enqueue('a:2', 0);
+        assert.deepStrictEqual(queue.toArray(), ['c:1', 'a:2']);
+        releaseEntry();
+        await processor.stop({ drain: true });
+        assert.deepStrictEqual(handledEntries, ['a:1', 'b:1', 'c:1', 'a:2']);
+    });
+});
@@ -0,0 +1,63 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue, { ManualClock } from '../index.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+const maxTimerDelayMilliseconds = 2 ** 31 - 1;
+/**
+ * A manual clock that records the delay of every timer.
+ */
+class RecordingClock extends ManualClock {
+    delays = [];
+    setTimer(callback, delayMilliseconds) {
+        this.delays.push(delayMilliseconds);
+        return super.setTimer(callback, delayMilliseconds);
+    }
+}
+await describe('Unique Timed Entry Queue - Scheduled Enqueue', async () => {
+    await it('enqueues an entry at a specific time', () => {
+        const shiftStart = new Date('2026-03-02T07:00:00');
+        const clock = new ManualClock(shiftStart.getTime() - 60 * 60_000);
+        const queue = new UniqueTimedEntryQueue({ clock });
+        assert.strictEqual(queue.enqueueAt('supervisor', shiftStart), true);
+        assert.deepStrictEqual(queue.pendingToArray(true), [
+            {
+                dueAt: shiftStart.getTime(),
+                enqueuedAt: clock.now(),
+                lastEnqueuedAt: clock.now(),
+                value: 'supervisor'
+            }
+        ]);
+        clock.advanceBy(60 * 60_000 - 1);
+        assert.ok(queue.isEmpty());
+        clock.advanceBy(1);
+        assert.deepStrictEqual(queue.toArray(), ['supervisor']);
+    });
+    await it('enqueues entries in the past immediately', () => {
+        const clock = new ManualClock(10_000);
+        const queue = new UniqueTimedEntryQueue({ clock });
+        queue.enqueueAt('entry', new Date(5000));
+        assert.deepStrictEqual(queue.toArray(), ['entry']);
+    });
+    await it('throws a RangeError for invalid dates', () => {
+        const queue = new UniqueTimedEntryQueue();
+        assert.throws(() => queue.enqueueAt('entry', new Date(Number.NaN)), RangeError);
+        assert.strictEqual(queue.hasPending(), false);
+    });
+    await it('handles delays beyond the timer limit', () => {
+        const clock = new RecordingClock();
+        const queue = new UniqueTimedEntryQueue({ clock });
+        const delay = maxTimerDelayMilliseconds * 2 + 1000;
+        queue.enqueueAt('entry', new Date(delay));
+        clock.advanceBy(maxTimerDelayMilliseconds * 2);
+        assert.ok(queue.isEmpty());
+        assert.ok(queue.hasPendingEntry('entry'));
+        clock.advanceBy(1000);
+        assert.deepStrictEqual(queue.toArray(), ['entry']);
+        assert.ok(clock.delays.every((timerDelay) => timerDelay <= maxTimerDelayMilliseconds));
+        assert.strictEqual(clock.delays.length, 3);
+    });
+});
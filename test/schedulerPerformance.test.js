@@ -0,0 +1,64 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import UniqueTimedEntryQueue from '../index.js';
+import { wait } from './utilities.js';
+// Debug output is not enabled, as logging every entry would dominate the timings.
+const entryCount = 100_000;
+const maximumDurationMilliseconds = 5000;
+const entries = Array.from({ length: entryCount }, (_value, index) => index);
+function countActiveTimeouts() {
+    return process
+        .getActiveResourcesInfo()
+        .filter((resource) => resource === 'Timeout').length;
+}
+function measure(context, label, callback) {
+    const startTime = performance.now();
+    callback();
+    const duration = performance.now() - startTime;
+    context.diagnostic(`${label}: ${Math.round(duration)} ms`);
+    assert.ok(duration < maximumDurationMilliseconds);
+}
+await describe('Unique Timed Entry Queue - Scheduler Performance', async () => {
+    await it(`schedules ${entryCount} pending entries with a single timer`, (context) => {
+        const activeTimeouts = countActiveTimeouts();
+        const queue = new UniqueTimedEntryQueue(60_000);
+        measure(context, 'enqueue', () => {
+            queue.enqueueAll(entries);
+        });
+        assert.strictEqual(queue.pendingSize(), entryCount);
+        assert.strictEqual(countActiveTimeouts(), activeTimeouts + 1);
+        measure(context, 'reset', () => {
+            queue.enqueueAll(entries, 30_000);
+        });
+        measure(context, 'check and clear', () => {
+            for (const entry of entries) {
+                assert.ok(queue.hasPendingEntry(entry));
+                if (entry % 2 === 0) {
+                    queue.clearPendingEntry(entry);
+                }
+            }
+        });
+        assert.strictEqual(queue.pendingSize(), entryCount / 2);
+        assert.strictEqual(countActiveTimeouts(), activeTimeouts + 1);
+        queue.clearPending();
+        assert.strictEqual(countActiveTimeouts(), activeTimeouts);
+    });
+    await it(`promotes ${entryCount} pending entries in order`, async (context) => {
+        const queue = new UniqueTimedEntryQueue(50);
+        const dequeuedEntries = [];
+        queue.addEventListener('enqueue', () => {
+            dequeuedEntries.push(queue.dequeue());
+        });
+        queue.enqueueAll(entries);
+        const startTime = performance.now();
+        while (dequeuedEntries.length < entryCount) {
+            assert.ok(performance.now() - startTime < maximumDurationMilliseconds);
+            await wait(10);
+        }
+        context.diagnostic(`promote: ${Math.round(performance.now() - startTime)} ms`);
+        assert.deepStrictEqual(dequeuedEntries, entries);
+        assert.strictEqual(queue.hasPending(), false);
+    });
+});
@@ -0,0 +1,137 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue, { JsonFileQueueStore, ManualClock } from '../index.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+const terminatedScript = `
+  import UniqueTimedEntryQueue, { JsonFileQueueStore } from ${JSON.stringify(new URL('../index.js', import.meta.url).href)}
+
+  const queue = new UniqueTimedEntryQueue({
+    enqueueDelayMilliseconds: 60_000,
+    store: new JsonFileQueueStore(process.argv[1])
+  })
+
+  queue.enqueue('pendingEntry')
+  queue.enqueue('queuedEntry', 0)
+
+  setInterval(() => {}, 1000)
+  console.log('ready')
+`;
+await describe('Unique Timed Entry Queue - Shutdown Operations', async () => {
+    let temporaryFolder = '';
+    before(async () => {
+        temporaryFolder = await fs.mkdtemp(path.join(os.tmpdir(), 'unique-timed-entry-queue-'));
+    });
+    after(async () => {
+        await fs.rm(temporaryFolder, { force: true, recursive: true });
+    });
+    await it('shuts down with the "discard" policy', async () => {
+        const queue = new UniqueTimedEntryQueue(1000);
+        const cancelledEntries = [];
+        queue.addEventListener('pendingCancel', (entry) => {
+            cancelledEntries.push(entry);
+        });
+        queue.enqueueAll(['entry1', 'entry2']);
+        await queue.shutdown();
+        assert.deepStrictEqual(cancelledEntries, ['entry1', 'entry2']);
+        assert.throws(() => queue.hasPending(), { name: 'InvalidStateError' });
+    });
+    await it('shuts down with the "flush" policy', async () => {
+        const drainedEntries = [];
+        const queue = new UniqueTimedEntryQueue({
+            enqueueDelayMilliseconds: 1000,
+            registerExitHook: false,
+            shutdownDrain: async (entries) => {
+                await Promise.resolve();
+                drainedEntries.push(entries);
+            },
+            shutdownPolicy: 'flush'
+        });
+        queue.enqueue('entry1', 0);
+        queue.enqueueAll(['entry2', 'entry3']);
+        const firstShutdown = queue.shutdown();
+        const secondShutdown = queue.shutdown();
+        await Promise.all([firstShutdown, secondShutdown]);
+        assert.deepStrictEqual(drainedEntries, [['entry1', 'entry2', 'entry3']]);
+    });
+    await it('stops waiting for the drain callback after the timeout', async () => {
+        const clock = new ManualClock();
+        const queue = new UniqueTimedEntryQueue({
+            clock,
+            enqueueDelayMilliseconds: 1000,
+            registerExitHook: false,
+            shutdownDrain: async () => {
+                // eslint-disable-next-line promise/avoid-new
+                await new Promise(() => { });
+            },
+            shutdownPolicy: 'flush',
+            shutdownTimeoutMilliseconds: 5000
+        });
+        const errors = [];
+        queue.addEventListener('error', (error, details) => {
+            assert.strictEqual(details.source, 'shutdown');
+            errors.push(error);
+        });
+        queue.enqueue('entry');
+        const shutdownPromise = queue.shutdown();
+        await Promise.resolve();
+        clock.advanceBy(5000);
+        await shutdownPromise;
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].name, 'TimeoutError');
+    });
+    await it('shuts down with the "persist" policy', async () => {
+        const filePath = path.join(temporaryFolder, 'persist.json');
+        const queue = new UniqueTimedEntryQueue({
+            enqueueDelayMilliseconds: 1000,
+            registerExitHook: false,
+            store: new JsonFileQueueStore(filePath)
+        });
+        queue.enqueueAll(['entry1', 'entry2']);
+        await queue.shutdown();
+        const restoredQueue = new UniqueTimedEntryQueue({
+            enqueueDelayMilliseconds: 1000,
+            registerExitHook: false,
+            store: new JsonFileQueueStore(filePath)
+        });
+        assert.deepStrictEqual(await restoredQueue.restore(), {
+            pending: 2,
+            queue: 0
+        });
+        await restoredQueue[Symbol.asyncDispose]();
+    });
+    await it('persists entries by default when the process is terminated', async () => {
+        const filePath = path.join(temporaryFolder, 'terminated.json');
+        const childProcess = spawn(process.execPath, [
+            '--no-warnings',
+            '--input-type=module',
+            '--eval',
+            terminatedScript,
+            filePath
+        ]);
+        await once(childProcess.stdout, 'data');
+        childProcess.kill('SIGTERM');
+        await once(childProcess, 'exit');
+        const restoredQueue = new UniqueTimedEntryQueue({
+            enqueueDelayMilliseconds: 60_000,
+            registerExitHook: false,
+            store: new JsonFileQueueStore(filePath)
+        });
+        assert.deepStrictEqual(await restoredQueue.restore(), {
+            pending: 1,
+            queue: 1
+        });
+        await restoredQueue[Symbol.asyncDispose]();
+    });
+    await it('requires a store for the "persist" policy', () => {
+        assert.throws(() => new UniqueTimedEntryQueue({ shutdownPolicy: 'persist' }), TypeError);
+    });
+});
@@ -0,0 +1,128 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import Debug from 'debug'
+
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
+import UniqueTimedEntryQueue, { type QueueSnapshot } from '../index.js'
+
+import { wait } from './utilities.js'
+
+Debug.enable(DEBUG_ENABLE_NAMESPACES)
+
+await describe('Unique Timed Entry Queue - Snapshot Operations', async () => {
+  await it('does snapshot()', () => {
+    const queue = new UniqueTimedEntryQueue<string>(1000, {
+      maxWaitMilliseconds: 5000,
+      timingMode: 'debounce'
+    })
+
+    queue.enqueue('pendingEntry', 2000)
+    queue.enqueue('queuedEntry', 0)
+
+    const snapshot = queue.snapshot()
+
+    assert.deepStrictEqual(snapshot.config, {
+      enqueueDelayMilliseconds: 1000,
+      maxWaitMilliseconds: 5000,
+      mergeQueued: false,
+      timingMode: 'debounce'
+    })
+
+    assert.deepStrictEqual(snapshot.queue, [
+      { key: 'queuedEntry', value: 'queuedEntry' }
+    ])
+
+    assert.strictEqual(snapshot.pending.length, 1)
+    assert.strictEqual(snapshot.pending[0].value, 'pendingEntry')
+    assert.strictEqual(snapshot.pending[0].delay, 2000)
+
+    assert.strictEqual(
+      snapshot.pending[0].dueAt,
+      snapshot.pending[0].enqueuedAt + 2000
+    )
+
+    const serializedSnapshot = JSON.parse(
+      JSON.stringify(queue)
+    ) as QueueSnapshot<string>
+
+    assert.deepStrictEqual(serializedSnapshot.pending, snapshot.pending)
+    assert.deepStrictEqual(serializedSnapshot.queue, snapshot.queue)
+
+    queue.clearAll()
+  })
+
+  await it('does fromSnapshot()', async () => {
+    const now = Date.now()
+
+    const snapshot: QueueSnapshot<string> = {
+      config: {
+        enqueueDelayMilliseconds: 1000,
+        mergeQueued: false,
+        timingMode: 'fixed'
+      },
+      pending: [
+        {
+          delay: 1000,
+          dueAt: now + 50,
+          enqueuedAt: now - 950,
+          key: 'pendingEntry',
+          lastEnqueuedAt: now - 950,
+          value: 'pendingEntry'
+        },
+        {
+          delay: 1000,
+          dueAt: now - 50,
+          enqueuedAt: now - 1050,
+          key: 'pastDueEntry',
+          lastEnqueuedAt: now - 1050,
+          value: 'pastDueEntry'
+        }
+      ],
+      queue: [{ key: 'queuedEntry', value: 'queuedEntry' }],
+      takenAt: now
+    }
+
+    const queue = UniqueTimedEntryQueue.fromSnapshot(
+      JSON.parse(JSON.stringify(snapshot)) as QueueSnapshot<string>
+    )
+
+    assert.strictEqual(queue.enqueueDelay(), 1000)
+
+    assert.deepStrictEqual(queue.toArray(), ['queuedEntry', 'pastDueEntry'])
+    assert.deepStrictEqual(queue.pendingToArray(), ['pendingEntry'])
+
+    await wait(100)
+
+    assert.deepStrictEqual(queue.toArray(), [
+      'queuedEntry',
+      'pastDueEntry',
+      'pendingEntry'
+    ])
+
+    assert.deepStrictEqual(queue.snapshot().config, snapshot.config)
+  })
+
+  await it('does fromSnapshot() - with options', () => {
+    interface WorkOrder {
+      workOrderNumber: string
+    }
+
+    const sourceQueue = new UniqueTimedEntryQueue<WorkOrder>(1000, {
+      getKey: (workOrder) => workOrder.workOrderNumber
+    })
+
+    sourceQueue.enqueue({ workOrderNumber: 'WO.1' }, 0)
+
+    const queue = UniqueTimedEntryQueue.fromSnapshot(sourceQueue.snapshot(), {
+      getKey: (workOrder) => workOrder.workOrderNumber
+    })
+
+    queue.enqueue({ workOrderNumber: 'WO.1' }, 0)
+
+    assert.strictEqual(queue.size(), 1)
+  })
+})
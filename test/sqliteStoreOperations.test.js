@@ -0,0 +1,240 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { promisify } from 'node:util';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue from '../index.js';
+import { wait } from './utilities.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+const isSqliteAvailable = process.getBuiltinModule('node:sqlite') !== undefined;
+const { SqliteQueueStore } = isSqliteAvailable
+    ? await import('../stores/sqliteQueueStore.js')
+    : // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        {};
+const dequeueScript = `
+  import { SqliteQueueStore } from ${JSON.stringify(new URL('../stores/sqliteQueueStore.js', import.meta.url).href)}
+  import UniqueTimedEntryQueue from ${JSON.stringify(new URL('../index.js', import.meta.url).href)}
+
+  const store = new SqliteQueueStore(process.argv[1])
+  const queue = new UniqueTimedEntryQueue(1000, { store })
+
+  const entries = []
+  let entry
+
+  while ((entry = queue.dequeue()) !== undefined) {
+    entries.push(entry)
+  }
+
+  store.close()
+  console.log(JSON.stringify(entries))
+`;
+const restoreScript = `
+  import { SqliteQueueStore } from ${JSON.stringify(new URL('../stores/sqliteQueueStore.js', import.meta.url).href)}
+  import UniqueTimedEntryQueue from ${JSON.stringify(new URL('../index.js', import.meta.url).href)}
+
+  const store = new SqliteQueueStore(process.argv[1])
+  const queue = new UniqueTimedEntryQueue(1000, { store })
+
+  const result = await queue.restore()
+
+  queue.dispose()
+  store.close()
+  console.log(JSON.stringify(result))
+`;
+await describe('Unique Timed Entry Queue - SQLite Store Operations', { skip: isSqliteAvailable ? false : 'node:sqlite is not available' }, async () => {
+    let temporaryFolder = '';
+    before(async () => {
+        temporaryFolder = await fs.mkdtemp(path.join(os.tmpdir(), 'unique-timed-entry-queue-'));
+    });
+    after(async () => {
+        await fs.rm(temporaryFolder, { force: true, recursive: true });
+    });
+    await it('keeps ready entries in the database', async () => {
+        const filePath = path.join(temporaryFolder, 'ready.db');
+        const store = new SqliteQueueStore(filePath);
+        const queue = new UniqueTimedEntryQueue(1000, { store });
+        queue.enqueueAll(['entry1', 'entry2', 'entry1'], 0);
+        assert.deepStrictEqual(queue.toArray(), ['entry1', 'entry2']);
+        const otherStore = new SqliteQueueStore(filePath);
+        const otherQueue = new UniqueTimedEntryQueue(1000, {
+            store: otherStore
+        });
+        assert.deepStrictEqual(otherQueue.toArray(), ['entry1', 'entry2']);
+        otherQueue.enqueue('entry2', 0);
+        assert.strictEqual(queue.size(), 2);
+        assert.strictEqual(otherQueue.dequeue(), 'entry1');
+        assert.deepStrictEqual(queue.toArray(), ['entry2']);
+        otherQueue.enqueueAll(['entry3', 'entry4'], 0);
+        assert.strictEqual(queue.peek(), 'entry2');
+        assert.strictEqual(otherQueue.remove('entry3'), true);
+        assert.strictEqual(queue.has('entry3'), false);
+        assert.deepStrictEqual(queue.toArray(), ['entry2', 'entry4']);
+        assert.strictEqual(queue.clear(), 2);
+        assert.ok(otherQueue.isEmpty());
+        await queue.flushStore();
+        store.close();
+        otherStore.close();
+    });
+    await it('merges into entries in the database', async () => {
+        const store = new SqliteQueueStore(path.join(temporaryFolder, 'merge.db'));
+        const queue = new UniqueTimedEntryQueue(1000, {
+            getKey: (entry) => entry.id.toString(),
+            merge: (existing, incoming) => ({
+                id: existing.id,
+                tags: [...existing.tags, ...incoming.tags]
+            }),
+            mergeQueued: true,
+            store
+        });
+        queue.enqueue({ id: 1, tags: ['a'] }, 0);
+        queue.enqueue({ id: 1, tags: ['b'] }, 0);
+        assert.deepStrictEqual(queue.dequeue(), { id: 1, tags: ['a', 'b'] });
+        await queue.flushStore();
+        store.close();
+    });
+    await it('dequeues entries in priority order', async () => {
+        const store = new SqliteQueueStore(path.join(temporaryFolder, 'priority.db'));
+        const queue = new UniqueTimedEntryQueue(1000, {
+            getKey: (entry) => entry.id.toString(),
+            getPriority: (entry) => (entry.urgent ? 1 : 0),
+            store
+        });
+        queue.enqueueAll([
+            { id: 1, urgent: false },
+            { id: 2, urgent: true },
+            { id: 3, urgent: false },
+            { id: 1, urgent: true }
+        ], 0);
+        assert.deepStrictEqual(queue.toArray().map((entry) => entry.id), [2, 1, 3]);
+        assert.deepStrictEqual(queue.dequeue(), { id: 2, urgent: true });
+        await queue.flushStore();
+        store.close();
+    });
+    await it('saves and restores pending entries', async () => {
+        const filePath = path.join(temporaryFolder, 'pending.db');
+        const store = new SqliteQueueStore(filePath);
+        const queue = new UniqueTimedEntryQueue(1000, { store });
+        queue.enqueueAll(['entry1', 'entry2']);
+        queue.clearPendingEntry('entry2');
+        await queue.flushStore();
+        assert.deepStrictEqual((await store.load()).pending.map((pendingEntry) => pendingEntry.value), ['entry1']);
+        queue.clearPending();
+        await queue.flushStore();
+        store.close();
+        const restartedStore = new SqliteQueueStore(filePath);
+        await restartedStore.savePending({
+            delay: 50,
+            dueAt: Date.now() + 50,
+            enqueuedAt: Date.now(),
+            key: 'entry3',
+            lastEnqueuedAt: Date.now(),
+            value: 'entry3'
+        });
+        const restartedQueue = new UniqueTimedEntryQueue(50, {
+            store: restartedStore
+        });
+        assert.deepStrictEqual(await restartedQueue.restore(), {
+            pending: 1,
+            queue: 0
+        });
+        await wait(100);
+        assert.deepStrictEqual(restartedQueue.toArray(), ['entry3']);
+        assert.deepStrictEqual((await restartedStore.load()).pending, []);
+        await restartedQueue.flushStore();
+        restartedStore.close();
+    });
+    await it('does not restore the pending entries of a running process', async () => {
+        const filePath = path.join(temporaryFolder, 'owners.db');
+        const store = new SqliteQueueStore(filePath);
+        const queue = new UniqueTimedEntryQueue(60_000, { store });
+        queue.enqueue('entry');
+        await queue.flushStore();
+        const { stdout } = await promisify(execFile)(process.execPath, [
+            '--no-warnings',
+            '--input-type=module',
+            '--eval',
+            restoreScript,
+            filePath
+        ]);
+        assert.deepStrictEqual(JSON.parse(stdout), { pending: 0, queue: 0 });
+        queue.dispose();
+        store.close();
+        const restartedStore = new SqliteQueueStore(filePath);
+        const restartedQueue = new UniqueTimedEntryQueue(60_000, {
+            store: restartedStore
+        });
+        assert.deepStrictEqual(await restartedQueue.restore(), {
+            pending: 1,
+            queue: 0
+        });
+        restartedQueue.clearPending();
+        await restartedQueue.flushStore();
+        restartedStore.close();
+    });
+    await it('shifts entries with SQL filters', () => {
+        const store = new SqliteQueueStore(path.join(temporaryFolder, 'excluded.db'));
+        const readyEntries = store.createReadyEntries();
+        for (const key of ['entry1', 'entry2', 'entry3']) {
+            readyEntries.push({ key, value: key });
+        }
+        assert.deepStrictEqual(readyEntries.shift(new Set(['entry1'])), {
+            key: 'entry2',
+            value: 'entry2'
+        });
+        assert.deepStrictEqual(readyEntries.shift(new Set()), {
+            key: 'entry1',
+            value: 'entry1'
+        });
+        readyEntries.push({ key: 'urgent', priority: 1, value: 'urgent' });
+        assert.deepStrictEqual(readyEntries.shiftLowestPriority(), {
+            key: 'entry3',
+            value: 'entry3'
+        });
+        assert.deepStrictEqual(readyEntries.entries(), [
+            { key: 'urgent', priority: 1, value: 'urgent' }
+        ]);
+        store.close();
+    });
+    await it('saves the reset details of pending entries', async () => {
+        const filePath = path.join(temporaryFolder, 'resets.db');
+        const store = new SqliteQueueStore(filePath);
+        const queue = new UniqueTimedEntryQueue(60_000, { store });
+        queue.enqueue('entry');
+        queue.enqueue('entry');
+        await queue.flushStore();
+        queue.dispose();
+        const [storedEntry] = (await store.load()).pending;
+        assert.strictEqual(storedEntry.resetCount, 1);
+        assert.strictEqual(typeof storedEntry.lastResetAt, 'number');
+        store.close();
+    });
+    await it('does not deliver an entry twice to several processes', async () => {
+        const filePath = path.join(temporaryFolder, 'shared.db');
+        const store = new SqliteQueueStore(filePath);
+        const queue = new UniqueTimedEntryQueue(1000, { store });
+        const entries = Array.from({ length: 500 }, (_value, index) => index);
+        queue.enqueueAll(entries, 0);
+        store.close();
+        const execFileAsync = promisify(execFile);
+        const results = await Promise.all([1, 2, 3].map(async () => await execFileAsync(process.execPath, [
+            '--no-warnings',
+            '--input-type=module',
+            '--eval',
+            dequeueScript,
+            filePath
+        ])));
+        const dequeuedEntries = results.flatMap((result) => JSON.parse(result.stdout));
+        assert.deepStrictEqual(dequeuedEntries.toSorted((entryA, entryB) => entryA - entryB), entries);
+    });
+    await it('rejects invalid table prefixes', () => {
+        assert.throws(() => new SqliteQueueStore(path.join(temporaryFolder, 'invalid.db'), {
+            tablePrefix: 'queue; DROP TABLE queue_ready'
+        }), TypeError);
+    });
+});
@@ -0,0 +1,212 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+
+import assert from 'node:assert'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it, mock } from 'node:test'
+
+import Debug from 'debug'
+
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js'
+import UniqueTimedEntryQueue, {
+  JsonFileQueueStore,
+  type QueueStore,
+  type StoredQueueState
+} from '../index.js'
+
+import { wait } from './utilities.js'
+
+Debug.enable(DEBUG_ENABLE_NAMESPACES)
+
+await describe('Unique Timed Entry Queue - Store Operations', async () => {
+  let temporaryFolder = ''
+
+  before(async () => {
+    temporaryFolder = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'unique-timed-entry-queue-')
+    )
+  })
+
+  after(async () => {
+    await fs.rm(temporaryFolder, { force: true, recursive: true })
+  })
+
+  await it('saves pending and queued entries to a JSON file', async () => {
+    const filePath = path.join(temporaryFolder, 'saves.json')
+
+    const queue = new UniqueTimedEntryQueue<string>(1000, {
+      store: new JsonFileQueueStore(filePath)
+    })
+
+    queue.enqueueAll(['entry1', 'entry2'])
+    queue.enqueue('entry3', 0)
+
+    await queue.flushStore()
+
+    const storedState = JSON.parse(
+      await fs.readFile(filePath, 'utf8')
+    ) as StoredQueueState<string>
+
+    assert.deepStrictEqual(
+      storedState.pending.map((pendingEntry) => pendingEntry.value),
+      ['entry1', 'entry2']
+    )
+
+    assert.deepStrictEqual(storedState.queue, [
+      { key: 'entry3', value: 'entry3' }
+    ])
+
+    queue.dequeue()
+    queue.clearPendingEntry('entry1')
+
+    await queue.flushStore()
+
+    const updatedState = JSON.parse(
+      await fs.readFile(filePath, 'utf8')
+    ) as StoredQueueState<string>
+
+    assert.strictEqual(updatedState.pending.length, 1)
+    assert.strictEqual(updatedState.queue.length, 0)
+
+    queue.clearAll()
+    await queue.flushStore()
+  })
+
+  await it('restores pending and queued entries', async () => {
+    const filePath = path.join(temporaryFolder, 'restores.json')
+
+    const firstQueue = new UniqueTimedEntryQueue<string>(100, {
+      store: new JsonFileQueueStore(filePath)
+    })
+
+    firstQueue.enqueue('shortDelayEntry', 50)
+    firstQueue.enqueue('longDelayEntry', 200)
+    firstQueue.enqueue('queuedEntry', 0)
+
+    await firstQueue.flushStore()
+
+    // Simulate a restart, without clearing the stored entries.
+    const secondQueue = new UniqueTimedEntryQueue<string>(100, {
+      store: new JsonFileQueueStore(filePath)
+    })
+
+    await wait(100)
+
+    const restoreResult = await secondQueue.restore()
+
+    assert.deepStrictEqual(restoreResult, { pending: 1, queue: 2 })
+
+    assert.deepStrictEqual(secondQueue.toArray(), [
+      'queuedEntry',
+      'shortDelayEntry'
+    ])
+
+    assert.deepStrictEqual(secondQueue.pendingToArray(), ['longDelayEntry'])
+
+    await wait(150)
+
+    assert.strictEqual(
+      secondQueue.size(),
+      3,
+      'Pending entry should be enqueued after its remaining delay'
+    )
+
+    firstQueue.clearAll()
+    secondQueue.clearAll()
+
+    await firstQueue.flushStore()
+    await secondQueue.flushStore()
+  })
+
+  await it('combines changes into few writes of the JSON file', async () => {
+    const filePath = path.join(temporaryFolder, 'bulk.json')
+
+    const writeFileMock = mock.method(fs, 'writeFile')
+
+    const queue = new UniqueTimedEntryQueue<number>(60_000, {
+      store: new JsonFileQueueStore(filePath)
+    })
+
+    queue.enqueueAll(Array.from({ length: 1000 }, (_value, index) => index))
+
+    await queue.flushStore()
+
+    const writeCount = writeFileMock.mock.callCount()
+
+    assert.ok(writeCount >= 1 && writeCount <= 2, `${writeCount} writes`)
+
+    writeFileMock.mock.restore()
+
+    const storedState = JSON.parse(
+      await fs.readFile(filePath, 'utf8')
+    ) as StoredQueueState<number>
+
+    assert.strictEqual(storedState.pending.length, 1000)
+
+    queue.clearPending()
+    await queue.flushStore()
+  })
+
+  await it('reports JSON file write errors when flushing', async () => {
+    const store = new JsonFileQueueStore<string>(
+      path.join(temporaryFolder, 'missing', 'errors.json')
+    )
+
+    await store.saveQueue({ key: 'entry', value: 'entry' })
+
+    await assert.rejects(store.flush(), { code: 'ENOENT' })
+    await store.flush()
+
+    const queue = new UniqueTimedEntryQueue<string>(1000, { store })
+
+    const errorSources: string[] = []
+
+    queue.addEventListener('error', (_error, details) => {
+      errorSources.push(details.source)
+    })
+
+    queue.enqueue('entry', 0)
+
+    await queue.flushStore()
+
+    assert.deepStrictEqual(errorSources, ['store'])
+  })
+
+  await it('dispatches store errors as "error" events', async () => {
+    const failingStore: QueueStore<string> = {
+      async load() {
+        return { pending: [], queue: [] }
+      },
+      async remove() {
+        throw new Error('Store failed')
+      },
+      async savePending() {
+        throw new Error('Store failed')
+      },
+      async saveQueue() {
+        throw new Error('Store failed')
+      }
+    }
+
+    const queue = new UniqueTimedEntryQueue<string>(1000, {
+      store: failingStore
+    })
+
+    const errorSources: string[] = []
+
+    queue.addEventListener('error', (error, details) => {
+      errorSources.push(details.source)
+    })
+
+    queue.enqueue('entry')
+
+    await queue.flushStore()
+
+    assert.deepStrictEqual(errorSources, ['store'])
+    assert.strictEqual(queue.pendingSize(), 1)
+
+    queue.clearPending()
+  })
+})
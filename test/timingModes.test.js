@@ -0,0 +1,67 @@
+// eslint-disable-next-line @eslint-community/eslint-comments/disable-enable-pair
+/* eslint-disable @typescript-eslint/no-magic-numbers */
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import Debug from 'debug';
+import { DEBUG_ENABLE_NAMESPACES } from '../debug.config.js';
+import UniqueTimedEntryQueue from '../index.js';
+import { wait } from './utilities.js';
+Debug.enable(DEBUG_ENABLE_NAMESPACES);
+await describe('Unique Timed Entry Queue - Timing Modes', async () => {
+    await it('resets the delay in "debounce" mode', async () => {
+        const queue = new UniqueTimedEntryQueue(200);
+        queue.enqueue('entry');
+        await wait(150);
+        queue.enqueue('entry');
+        await wait(150);
+        assert.strictEqual(queue.size(), 0, 'Delay should have been reset');
+        await wait(100);
+        assert.strictEqual(queue.size(), 1);
+    });
+    await it('does not reset the delay in "fixed" mode', async () => {
+        const queue = new UniqueTimedEntryQueue(200, {
+            timingMode: 'fixed'
+        });
+        queue.enqueue('entry');
+        await wait(150);
+        queue.enqueue('entry');
+        await wait(100);
+        assert.strictEqual(queue.size(), 1, 'Delay should not have been reset');
+        assert.strictEqual(queue.pendingSize(), 0);
+    });
+    await it('updates the pending value in "fixed" mode', async () => {
+        const queue = new UniqueTimedEntryQueue(100, {
+            getKey: (entry) => entry.id.toString(),
+            timingMode: 'fixed'
+        });
+        queue.enqueue({ id: 1, version: 1 });
+        queue.enqueue({ id: 1, version: 2 });
+        await wait(150);
+        assert.deepStrictEqual(queue.toArray(), [{ id: 1, version: 2 }]);
+    });
+    await it('promotes entries after maxWaitMilliseconds in "debounce" mode', async () => {
+        const queue = new UniqueTimedEntryQueue(200, {
+            maxWaitMilliseconds: 300
+        });
+        queue.enqueue('entry');
+        await wait(150);
+        queue.enqueue('entry');
+        await wait(100);
+        queue.enqueue('entry');
+        assert.strictEqual(queue.size(), 0);
+        await wait(100);
+        assert.strictEqual(queue.size(), 1, 'Entry should be promoted once maxWaitMilliseconds has passed');
+    });
+    await it('tracks the first and last enqueue times', async () => {
+        const queue = new UniqueTimedEntryQueue(1000);
+        const startTime = Date.now();
+        queue.enqueue('entry');
+        await wait(50);
+        queue.enqueue('entry');
+        const [metadata] = queue.pendingToArray(true);
+        assert.strictEqual(metadata.value, 'entry');
+        assert.ok(metadata.enqueuedAt >= startTime);
+        assert.ok(metadata.lastEnqueuedAt - metadata.enqueuedAt >= 40);
+        queue.clearAll();
+    });
+});
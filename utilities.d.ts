@@ -9,3 +9,17 @@ export declare function valueToString(value: unknown): string;
  * @returns A unique string identifier.
  */
 export declare function generateUniqueListenerId(): string;
+/**
+ * Checks that a value is a valid number of milliseconds.
+ * @param name - The name of the value, used in the error message.
+ * @param value - The value to check.
+ * @throws {RangeError} If the value is NaN, infinite or negative.
+ */
+export declare function assertValidMilliseconds(name: string, value: number): void;
+/**
+ * Checks that a value is a valid maximum size.
+ * @param name - The name of the value, used in the error message.
+ * @param value - The value to check.
+ * @throws {RangeError} If the value is not a positive integer.
+ */
+export declare function assertValidSize(name: string, value: number): void;
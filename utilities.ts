@@ -33,3 +33,31 @@ export function generateUniqueListenerId(): string {
     Math.random().toString(36).slice(2, 15)
   )
 }
+
+/**
+ * Checks that a value is a valid number of milliseconds.
+ * @param name - The name of the value, used in the error message.
+ * @param value - The value to check.
+ * @throws {RangeError} If the value is NaN, infinite or negative.
+ */
+export function assertValidMilliseconds(name: string, value: number): void {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new RangeError(
+      `${name} must be a finite, non-negative number, received ${value}.`
+    )
+  }
+}
+
+/**
+ * Checks that a value is a valid maximum size.
+ * @param name - The name of the value, used in the error message.
+ * @param value - The value to check.
+ * @throws {RangeError} If the value is not a positive integer.
+ */
+export function assertValidSize(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new RangeError(
+      `${name} must be a positive integer, received ${value}.`
+    )
+  }
+}